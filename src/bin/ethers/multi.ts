@@ -0,0 +1,223 @@
+#!/usr/bin/env node
+
+import { resolve } from 'path'
+import {
+  DEFAULT_PROFILES_FILE,
+  loadConfigs,
+  parseArgs,
+  readProfile,
+  reloadDotenv
+} from '../../lib/Config'
+import { keystore, loadKeystore } from '../../lib/Keystore'
+import { traceKeyValue } from '../../lib/Logger'
+import {
+  EthersConfig,
+  ethersSettings,
+  reloadableEnv
+} from '../../lib/ethers/config'
+import { MultiNetworkServer } from '../../lib/ethers/multi'
+import {
+  ReloadableSettings,
+  WalletMiddlewareServer
+} from '../../lib/ethers/server'
+import { FailoverJsonRpcProvider } from '../../lib/ethers/upstreams'
+
+require('dotenv').config()
+const packageData = require('../../../package.json')
+
+// The listening port and the networks to be served can be passed as first and further parameters, or be set
+// by the `ETHRPC_PORT` and `ETHRPC_NETWORKS` environment variables (networks being comma-separated):
+const { file, positional } = parseArgs(process.argv.slice(2))
+const port = parseInt(positional[0] || process.env.ETHRPC_PORT || '')
+const networks =
+  positional.length > 1
+    ? positional.slice(1)
+    : (process.env.ETHRPC_NETWORKS || '')
+        .split(',')
+        .map(network => network.trim())
+        .filter(network => network !== '')
+
+// Settings of every network are taken from the profile named after it, as overridden by the environment,
+// except for the ones telling networks apart. Balance thresholds are in native coins of every network, so the
+// environment only sets them for profiles not setting their own. The listening port is shared by all networks,
+// while spent amounts are kept by default within a budgets file named after every network:
+function readConfigs (): { [network: string]: EthersConfig } {
+  return loadConfigs(
+    ethersSettings,
+    file,
+    networks,
+    ['alertMinBalance', 'network', 'port', 'providerUrl', 'readyMinBalance'],
+    network => ({
+      budgetsFile: `.ethrpc-budgets.${network.replace(/:/g, '-')}.json`,
+      port
+    })
+  )
+}
+
+// Settings that get read again from the config file, the environment and the .env file, on SIGHUP:
+function reloadableSettings (config: EthersConfig): ReloadableSettings {
+  return {
+    estimate_gas_limit: config.estimateGasLimit,
+    estimate_gas_price: config.estimateGasPrice,
+    eth_gas_price_factor:
+      config.ethGasPriceFactor ?? config.gasPriceFactor > 1.0,
+    force_eip_155: config.forceEip155,
+    force_eip_1559: config.forceEip1559,
+    gas_limit: config.gasLimit,
+    gas_limit_factor: config.gasLimitFactor,
+    gas_price: config.gasPrice,
+    gas_price_factor: config.gasPriceFactor,
+    interleave_blocks: config.interleaveBlocks,
+    private_keys: config.privateKeys,
+    remote_signer: config.remoteSigner,
+    seed_phrase: config.seedPhrase,
+    seed_phrase_wallets: config.seedPhraseWallets
+  }
+}
+
+// Changes to any other variables, read once on startup, only apply after restarting the gateway:
+function warnNotReloaded (changed: string[]) {
+  const ignored = changed.filter(name => !reloadableEnv.includes(name))
+  if (ignored.length > 0) {
+    console.warn(`Not reloaded, until restarted: ${ignored.join(', ')}`)
+  }
+}
+
+let configs: { [network: string]: EthersConfig }
+try {
+  if (!Number.isInteger(port)) {
+    throw new Error(
+      'No listening port was given: please pass it as first parameter, or set the ETHRPC_PORT environment variable'
+    )
+  } else if (networks.length === 0) {
+    throw new Error(
+      'No networks were given: please pass them as further parameters, or set the ETHRPC_NETWORKS environment variable'
+    )
+  }
+  // Only networks served by the ethers-based gateway can be served along with others:
+  networks.forEach(network => {
+    const { adapter } = readProfile(file || DEFAULT_PROFILES_FILE, network)
+    if (adapter && adapter !== 'ethers') {
+      throw new Error(
+        `Network ${network} cannot be served along with others, as it requires the ${adapter} adapter`
+      )
+    }
+  })
+  configs = readConfigs()
+  // Networks cannot share their budgets file, as spent amounts are only told apart by wallet address:
+  const budgetsFiles: { [file: string]: string } = {}
+  networks
+    .filter(network => configs[network].budgets.length > 0)
+    .forEach(network => {
+      const path = resolve(configs[network].budgetsFile)
+      if (budgetsFiles[path]) {
+        throw new Error(
+          `Networks ${budgetsFiles[path]} and ${network} cannot share the same budgets file: ${configs[network].budgetsFile}`
+        )
+      }
+      budgetsFiles[path] = network
+    })
+} catch (ex: any) {
+  console.info(`\n\x1b[1;37mError: ${ex?.message || ex}\x1b[0m`)
+  process.exit(0)
+}
+
+// Mandatory: either a seed phrase or private keys to use for every network's own wrapped wallets.
+// Private keys can also be loaded from encrypted V3 keystore files within the `ETHRPC_KEYSTORE_DIR` directory,
+// or be kept out of the gateway by a remote signer (e.g. Web3Signer or Clef) at `ETHRPC_ETHERS_REMOTE_SIGNER`.
+const walletless = networks.filter(
+  network =>
+    configs[network].seedPhrase === '' &&
+    configs[network].privateKeys.length == 0 &&
+    !keystore.dir &&
+    !configs[network].remoteSigner
+)
+if (walletless.length > 0) {
+  console.info(
+    `\n\x1b[1;37mError: No mnemonic phrase nor private keys were provided for \x1b[1;32m${walletless.join(
+      ', '
+    )}\x1b[1;37m. Please, set either the \x1b[1;33mETHRPC_SEED_PHRASE\x1b[37m, the \x1b[33mETHRPC_PRIVATE_KEYS\x1b[37m, the \x1b[33mETHRPC_KEYSTORE_DIR\x1b[37m or the \x1b[33mETHRPC_ETHERS_REMOTE_SIGNER\x1b[37m variables.\x1b[0m`
+  )
+  process.exit(0)
+}
+
+console.log('='.repeat(120))
+console.log(
+  `${packageData.name} v${packageData.version} (ethers: ${packageData.dependencies.ethers})`
+)
+console.log()
+
+loadKeystore()
+  .then(keystore_keys => {
+    const multi = new MultiNetworkServer()
+    networks.forEach(network => {
+      const config = configs[network]
+      const settings = reloadableSettings(config)
+      traceKeyValue('Profile', [
+        ['Network', network],
+        ['Mount path', MultiNetworkServer.mountPath(network)]
+      ])
+      const server = new WalletMiddlewareServer(
+        settings.seed_phrase,
+        settings.seed_phrase_wallets,
+        [...settings.private_keys, ...keystore_keys],
+        settings.interleave_blocks,
+        settings.gas_price,
+        settings.gas_limit,
+        settings.estimate_gas_limit,
+        settings.estimate_gas_price,
+        config.alwaysSynced,
+        config.mockFilters,
+        settings.gas_price_factor,
+        settings.gas_limit_factor,
+        settings.force_eip_155,
+        settings.force_eip_1559,
+        settings.eth_gas_price_factor,
+        config.bumpBlocks,
+        config.bumpPercentage,
+        config.filterTimeout,
+        config.websockets,
+        config.cacheSize,
+        config.cacheTtl,
+        config.cacheDepth,
+        config.eip712Domains,
+        config.policyFile,
+        config.budgets,
+        config.budgetsFile,
+        config.apiKeys,
+        config.adminKey,
+        settings.remote_signer,
+        config.alertMinBalance,
+        config.readyMinBalance,
+        new FailoverJsonRpcProvider(
+          config.providerUrl.split(',').map(url => url.trim()),
+          config.network
+        )
+      )
+      multi.mount(network, server)
+    })
+    multi.listen(port)
+    // Swap in wallets and gas settings of every network already started, read again from the config file,
+    // the environment, the .env file and keystore files:
+    process.on('SIGHUP', async () => {
+      try {
+        warnNotReloaded(reloadDotenv())
+        const reloaded = readConfigs()
+        const keystore_keys = await loadKeystore()
+        const started = networks.filter(network => multi.ready[network])
+        for (const network of started) {
+          const settings = reloadableSettings(reloaded[network])
+          await multi.servers[network].reload({
+            ...settings,
+            private_keys: [...settings.private_keys, ...keystore_keys]
+          })
+        }
+      } catch (ex: any) {
+        console.error(`Cannot reload: ${ex?.message || ex}`)
+      }
+    })
+  })
+  .catch(ex => {
+    console.error(`\n\x1b[1;31mError: ${ex?.message || ex}\x1b[0m`)
+    process.exit(-1)
+  })
@@ -1,160 +1,205 @@
 #!/usr/bin/env node
+// keep the output of `ethrpc list --json` machine-readable
+if (process.argv.includes('--json')) process.env.DOTENV_CONFIG_QUIET = 'true'
 require('dotenv').config()
-const execSync = require('child_process').execSync
-const scripts = require('../../package.json').scripts
+const { spawnSync } = require('child_process')
+const { join } = require('path')
+const { ADAPTER_BINS, checkChainId, loadRegistry } = require('../lib/Registry')
+
+const registry = loadRegistry()
+
+if (process.argv[2] === 'list' && process.argv.includes('--json')) {
+  // output the network registry, as machine-readable JSON
+  console.log(JSON.stringify(registry, null, 2))
+  process.exit(0)
+}
 
 console.info(
   `ETH/RPC GATEWAY v${require('../../package.json')?.version}`
 )
 
-if (process.argv.length >= 3) {
-  // search for network and launch gateway, if found
-  let ecosystem
-  for (var key in scripts) {
-    if (
-      key.indexOf(':') > -1 &&
-      key.toLowerCase() === process.argv[2].toLowerCase()
-    ) {
-      if (process.env.ETHRPC_SEED_PHRASE || process.env.ETHRPC_PRIVATE_KEYS) {
-        var cmdline = scripts[key].split(' ')
-        // substitute "node path/to/bin" to "npx ethrpc-bin"
-        var index = cmdline.findIndex(item => item === 'node')
-        if (index > -1) cmdline[index] = 'npx'
-        index = cmdline.findIndex(item => item.startsWith('dist/bin'))
-        if (index > -1)
-          cmdline[index] = `ethrpc-${cmdline[index].split('/').slice(-1)}`
-        // replace all references to $ETHRPC_PROVIDER_URL
-        cmdline = cmdline.map(item => {
-          if (item.indexOf('$ETHRPC_PROVIDER_KEY') > -1) {
-            if (!process.env.ETHRPC_PROVIDER_KEY) {
-              console.info()
-              console.info(
-                'Cannot launch',
-                key,
-                'gateway: the ETHRPC_PROVIDER_KEY envar must be set!'
-              )
-              process.exit(0)
-            }
-            return item.replaceAll(
-              '$ETHRPC_PROVIDER_KEY',
-              process.env.ETHRPC_PROVIDER_KEY
-            )
-          } else {
-            return item
-          }
-        })
-        if (process.env.ETHRPC_PORT || process.argv.length >= 4) {
-          cmdline[cmdline.length - 1] = process.argv[3] || process.env.ETHRPC_PORT
-          process.argv.splice(3, 1)
-        }
-        if (process.env.ETHRPC_PROVIDER_URL || process.argv.length >= 4) {
-          cmdline[cmdline.length - 2] = process.argv[3] || process.env.ETHRPC_PROVIDER_URL
-          process.argv.splice(3, 1)
-        }
-        // invoke subprocess
-        execSync(
-          cmdline.join(' '),
-          { stdio: 'inherit' }
-        )
-        process.exit(0)
-      } else {
-        console.info()
-        console.info(
-          '\x1b[1;37mCannot launch gateway on\x1b[1;32m',
-          key,
-          '\x1b[1;37m!!\x1b[0m'
-        )
+if (process.argv[2] === 'keystore') {
+  // manage encrypted keystore files
+  const result = spawnSync(
+    process.execPath,
+    [join(__dirname, 'keystore.js'), ...process.argv.slice(3)],
+    { stdio: 'inherit' }
+  )
+  process.exit(result.status || 0)
+}
+
+if (process.argv[2] === 'list') {
+  // list all supported networks, along with their chain id, default port and adapter
+  const header = 'SUPPORTED NETWORKS'
+  console.info('\x1b[1;37m')
+  console.info(header)
+  console.info('='.repeat(header.length), '\x1b[0m')
+  registry.forEach(network => {
+    console.info(
+      '  ',
+      `\x1b[1;32m${network.name.padEnd(24)}\x1b[0m`,
+      `chain id: ${`${network.chainId}`.padEnd(10)}`,
+      `port: ${network.port}  `,
+      `adapter: ${network.adapter}`
+    )
+  })
+  process.exit(0)
+}
+
+/**
+ * Checks the upstream provider(s) serve the expected chain, and runs the gateway binary serving the network.
+ */
+async function launch (network, env) {
+  const urls = (env.ETHRPC_PROVIDER_URL || network.rpcUrl).split(',')
+  for (const url of urls) {
+    try {
+      const reason = await checkChainId(network, url.trim())
+      if (reason) {
         console.info(
-          '\nPlease, setup the \x1b[33mETHRPC_PRIVATE_KEYS\x1b[0m environment variable, or add it to the .env file!\n'
+          `\n\x1b[1;37mCannot launch gateway on\x1b[1;32m ${network.name}\x1b[1;37m: ${reason}\x1b[0m`
         )
-        process.exit(0)
+        process.exit(1)
       }
-    } else if (
-      key.indexOf(':') &&
-      key.split(':')[0].toLowerCase() === process.argv[2].toLowerCase()
-    ) {
-      ecosystem = process.argv[2].toLowerCase()
-      break
+    } catch (ex) {
+      console.info(
+        `\n\x1b[33mWarning: cannot verify chain id of ${url.trim()}: ${ex?.message || ex}\x1b[0m`
+      )
     }
   }
-  // if parameter matched a known ecosystem, list available network within it
-  if (ecosystem) {
-    const header = `SUPPORTED NETWORKS IN '${ecosystem.toUpperCase()}'`
+  const result = spawnSync(
+    process.execPath,
+    [join(__dirname, ADAPTER_BINS[network.adapter]), '--profile', network.name],
+    { env, stdio: 'inherit' }
+  )
+  process.exit(result.status || 0)
+}
+
+// search for network and launch gateway, if found
+const name = (process.argv[2] || '').toLowerCase()
+const network = registry.find(network => network.name === name)
+if (network) {
+  if (
+    process.env.ETHRPC_SEED_PHRASE ||
+    process.env.ETHRPC_PRIVATE_KEYS ||
+    process.env.ETHRPC_KEYSTORE_DIR ||
+    process.env.ETHRPC_ETHERS_REMOTE_SIGNER
+  ) {
+    // port and provider URL given from command-line override those set within the network's profile
+    const env = { ...process.env }
+    if (process.argv.length >= 4) env.ETHRPC_PORT = process.argv[3]
+    if (process.argv.length >= 5) env.ETHRPC_PROVIDER_URL = process.argv[4]
+    launch(network, env)
+  } else {
+    console.info()
+    console.info(
+      '\x1b[1;37mCannot launch gateway on\x1b[1;32m',
+      network.name,
+      '\x1b[1;37m!!\x1b[0m'
+    )
+    console.info(
+      '\nPlease, setup either the \x1b[33mETHRPC_PRIVATE_KEYS\x1b[0m or the \x1b[33mETHRPC_KEYSTORE_DIR\x1b[0m environment variable, or add it to the .env file!\n'
+    )
+    process.exit(0)
+  }
+} else {
+  if (registry.some(network => network.ecosystem === name)) {
+    // if parameter matched a known ecosystem, list available network within it
+    const header = `SUPPORTED NETWORKS IN '${name.toUpperCase()}'`
     console.info('\x1b[1;37m')
     console.info(header)
     console.info('='.repeat(header.length), '\x1b[0m')
-    for (var key in scripts) {
-      if (key.split(':')[0].toLowerCase() === ecosystem) {
-        console.info('  ', `\x1b[1;32m${key}\x1b[0m`)
+    registry.forEach(network => {
+      if (network.ecosystem === name) {
+        console.info('  ', `\x1b[1;32m${network.name}\x1b[0m`)
       }
-    }
+    })
     process.exit(0)
-  } else {
-    if (process.argv[2].indexOf(':') > -1) {
-      console.info(
-        `\n\x1b[1;37mUnknown network: \x1b[1;31m${process.argv[2].toUpperCase()}\x1b[0m`
-      )
-    } else {
-      console.info(
-        `\n\x1b[1;37mUnknown ecosystem: \x1b[1;31m${process.argv[2].toUpperCase()}\x1b[0m`
-      )
-    }
+  } else if (name.indexOf(':') > -1) {
+    console.info(
+      `\n\x1b[1;37mUnknown network: \x1b[1;31m${name.toUpperCase()}\x1b[0m`
+    )
+  } else if (name) {
+    console.info(
+      `\n\x1b[1;37mUnknown ecosystem: \x1b[1;31m${name.toUpperCase()}\x1b[0m`
+    )
   }
+  usage()
 }
-console.info('\n\x1b[1;37mUsage:\x1b[0m')
-console.info()
-console.info(
-  '  \x1b[1;37m',
-  '$ npx ethrpc',
-  '\x1b[1;33m[<ECOSYSTEM>[:<NETWORK>] [<PORT> [<REMOTE_PROVIDER_URL]]',
-  '\x1b[0m'
-)
-if (!process.env.ETHRPC_SEED_PHRASE) {
-  console.info()
-  console.info(
-    'At least one of the following env variables must be previously set (or included within an .env file):'
-  )
+
+/**
+ * Tells how to use the launcher, and lists supported ecosystems.
+ */
+function usage () {
+  console.info('\n\x1b[1;37mUsage:\x1b[0m')
   console.info()
   console.info(
-    '  ',
-    '\x1b[33mETHRPC_PRIVATE_KEYS\x1b[0m',
-    '\t=>',
-    'An array of one or more private keys from which wallet addresses will be derived.'
+    '  \x1b[1;37m',
+    '$ npx ethrpc',
+    '\x1b[1;33m[<ECOSYSTEM>[:<NETWORK>] [<PORT> [<REMOTE_PROVIDER_URL]]',
+    '\x1b[0m'
   )
   console.info(
-    '  ',
-    '\x1b[33mETHRPC_SEED_PHRASE\x1b[0m',
-    '\t=>',
-    'Secret phrase from which wallet addresses will be derived.'
+    '  \x1b[1;37m',
+    '$ npx ethrpc list',
+    '\x1b[1;33m[--json]',
+    '\x1b[0m'
   )
-}
-if (!process.env.ETHRPC_PROVIDER_URL) {
-  console.info()
-  console.info('Optionally, you can specify a custom endpoint by setting:')
-  console.info()
   console.info(
-    '  ',
-    '\x1b[33mETHRPC_PROVIDER_URL\x1b[0m',
-    '\t=>',
-    'The JSON ETH/RPC provider to connect to.'
+    '  \x1b[1;37m',
+    '$ npx ethrpc keystore import',
+    '\x1b[1;33m[--dir <KEYSTORE_DIR>] [--count <WALLETS>] [<PRIVATE_KEY>|"<SEED_PHRASE>"]',
+    '\x1b[0m'
   )
-}
+  if (!process.env.ETHRPC_SEED_PHRASE) {
+    console.info()
+    console.info(
+      'At least one of the following env variables must be previously set (or included within an .env file):'
+    )
+    console.info()
+    console.info(
+      '  ',
+      '\x1b[33mETHRPC_PRIVATE_KEYS\x1b[0m',
+      '\t=>',
+      'An array of one or more private keys from which wallet addresses will be derived.'
+    )
+    console.info(
+      '  ',
+      '\x1b[33mETHRPC_SEED_PHRASE\x1b[0m',
+      '\t=>',
+      'Secret phrase from which wallet addresses will be derived.'
+    )
+    console.info(
+      '  ',
+      '\x1b[33mETHRPC_KEYSTORE_DIR\x1b[0m',
+      '\t=>',
+      'Directory of encrypted V3 keystore files, as created by `npx ethrpc keystore import`.'
+    )
+  }
+  if (!process.env.ETHRPC_PROVIDER_URL) {
+    console.info()
+    console.info('Optionally, you can specify a custom endpoint by setting:')
+    console.info()
+    console.info(
+      '  ',
+      '\x1b[33mETHRPC_PROVIDER_URL\x1b[0m',
+      '\t=>',
+      'The JSON ETH/RPC provider to connect to.'
+    )
+  }
 
-const ecosystems = []
-for (var key in scripts) {
-  if (key.indexOf(':') > -1) {
-    const ecosystem = key.split(':')[0]
-    if (!ecosystems.includes(ecosystem)) {
-      ecosystems.push(ecosystem)
+  const ecosystems = []
+  registry.forEach(network => {
+    if (!ecosystems.includes(network.ecosystem)) {
+      ecosystems.push(network.ecosystem)
+    }
+  })
+  if (ecosystems.length > 0) {
+    console.info('\x1b[1;37m')
+    const header = 'SUPPORTED ECOSYSTEMS'
+    console.info(header)
+    console.info('='.repeat(header.length), '\x1b[0m')
+    for (var index in ecosystems) {
+      console.info('  ', `\x1b[1;32m${ecosystems[index]}\x1b[0m`)
     }
-  }
-}
-if (ecosystems.length > 0) {
-  console.info('\x1b[1;37m')
-  const header = 'SUPPORTED ECOSYSTEMS'
-  console.info(header)
-  console.info('='.repeat(header.length), '\x1b[0m')
-  for (var index in ecosystems) {
-    console.info('  ', `\x1b[1;32m${ecosystems[index]}\x1b[0m`)
   }
 }
@@ -0,0 +1,72 @@
+#!/usr/bin/env node
+
+import {
+  importSecret,
+  keystore,
+  promptSecret,
+  readPassword
+} from '../lib/Keystore'
+
+const packageData = require('../../package.json')
+
+function usage () {
+  console.info('\n\x1b[1;37mUsage:\x1b[0m')
+  console.info()
+  console.info(
+    '  \x1b[1;37m',
+    '$ npx ethrpc-keystore import',
+    '\x1b[1;33m[--dir <KEYSTORE_DIR>] [--count <WALLETS>] [<PRIVATE_KEY>|"<SEED_PHRASE>"]',
+    '\x1b[0m'
+  )
+  console.info()
+  console.info(
+    'Encrypts a private key, or the first wallets derived from a seed phrase, into V3 keystore files.'
+  )
+  console.info(
+    'If not passed as argument, the secret is prompted for. The password is taken from the \x1b[33mETHRPC_KEYSTORE_PASSWORD_FILE\x1b[0m'
+  )
+  console.info(
+    'or \x1b[33mETHRPC_KEYSTORE_PASSWORD\x1b[0m variables, or prompted for if neither is set.'
+  )
+  process.exit(0)
+}
+
+async function main (args: string[]) {
+  if (args[0] !== 'import') {
+    usage()
+  }
+  let count = 1
+  let secret = ''
+  for (let ix = 1; ix < args.length; ix++) {
+    if (args[ix] === '--count') {
+      count = parseInt(args[++ix])
+    } else if (args[ix] === '--dir') {
+      keystore.dir = args[++ix]
+    } else {
+      secret = args[ix]
+    }
+  }
+  if (!keystore.dir) {
+    keystore.dir = 'keystore'
+  }
+  if (!secret) {
+    secret = await promptSecret('Private key or seed phrase: ')
+  }
+  const password = await readPassword()
+  if (!keystore.passwordFile && !keystore.password) {
+    if (password !== (await promptSecret('Repeat password: '))) {
+      throw new Error('Passwords do not match')
+    }
+  }
+  const addresses = await importSecret(secret, password, count)
+  addresses.forEach(address =>
+    console.info(`Imported ${address} into ${keystore.dir}`)
+  )
+}
+
+console.info(`${packageData.name} v${packageData.version}`)
+
+main(process.argv.slice(2)).catch(ex => {
+  console.error(`\n\x1b[1;31mError: ${ex?.message || ex}\x1b[0m`)
+  process.exit(1)
+})
@@ -0,0 +1,125 @@
+import axios from 'axios'
+import { logger } from './Logger'
+
+require('dotenv').config()
+
+/**
+ * Low-balance alert settings, as set from the environment:
+ * - `ETHRPC_ALERT_WEBHOOK`: URL where alerts get POSTed to (alerts are disabled if not set).
+ * - `ETHRPC_ALERT_MIN_BALANCE`: balance threshold, in native coins of the network being served.
+ * - `ETHRPC_ALERT_INTERVAL`: seconds between balance checks.
+ * - `ETHRPC_ALERT_HYSTERESIS`: ratio above the threshold that a balance must recover before alerting again
+ *   (e.g. 0.1 for 10%).
+ */
+export const alerts = {
+  hysteresis: parseFloat(process.env.ETHRPC_ALERT_HYSTERESIS || '0.1'),
+  interval: parseInt(process.env.ETHRPC_ALERT_INTERVAL || '300'),
+  minBalance: parseFloat(process.env.ETHRPC_ALERT_MIN_BALANCE || '0'),
+  webhook: process.env.ETHRPC_ALERT_WEBHOOK || ''
+}
+
+interface BalanceAlert {
+  address: string
+  balance: number
+  event: 'balance_low' | 'balance_recovered'
+  network: string
+  threshold: number
+  timestamp: string
+}
+
+/**
+ * Periodically checks balances of all managed wallets, and POSTs a JSON alert to the configured webhook
+ * as soon as one falls below the threshold. No further alerts are sent for the same wallet until its balance
+ * recovers above the threshold plus some hysteresis margin.
+ */
+export class BalanceWatcher {
+  balances: () => Promise<{ [address: string]: number }>
+  low: Set<string>
+  minBalance: number
+  network?: string
+  timer?: NodeJS.Timeout
+
+  /**
+   * @param balances Gets balance of every managed wallet, in native coins.
+   * @param minBalance Balance threshold, in native coins of the network being served.
+   */
+  constructor (
+    balances: () => Promise<{ [address: string]: number }>,
+    minBalance: number = alerts.minBalance
+  ) {
+    this.balances = balances
+    this.low = new Set()
+    this.minBalance = minBalance
+  }
+
+  /**
+   * Checks all balances once, alerting on the ones crossing the threshold in either direction.
+   */
+  async check () {
+    let balances: { [address: string]: number }
+    try {
+      balances = await this.balances()
+    } catch (ex: any) {
+      logger.warn({ message: `Cannot check balances: ${ex?.reason || ex}` })
+      return
+    }
+    for (const address of Object.keys(balances)) {
+      const balance = balances[address]
+      if (!this.low.has(address) && balance < this.minBalance) {
+        this.low.add(address)
+        logger.warn({
+          message: `Balance of ${address} fell below ${this.minBalance}: ${balance}`
+        })
+        await this.notify('balance_low', address, balance)
+      } else if (
+        this.low.has(address) &&
+        balance >= this.minBalance * (1 + alerts.hysteresis)
+      ) {
+        this.low.delete(address)
+        logger.info({
+          message: `Balance of ${address} recovered above ${this.minBalance}: ${balance}`
+        })
+        await this.notify('balance_recovered', address, balance)
+      }
+    }
+  }
+
+  /**
+   * POSTs one single alert to the webhook.
+   */
+  async notify (
+    event: BalanceAlert['event'],
+    address: string,
+    balance: number
+  ) {
+    const alert: BalanceAlert = {
+      address,
+      balance,
+      event,
+      network: this.network || 'unknown',
+      threshold: this.minBalance,
+      timestamp: new Date().toISOString()
+    }
+    try {
+      await axios.post(alerts.webhook, alert, { timeout: 10000 })
+    } catch (ex: any) {
+      logger.warn({
+        message: `Cannot send ${event} alert to webhook: ${ex?.message || ex}`
+      })
+    }
+  }
+
+  /**
+   * Starts checking balances periodically, if alerts are enabled.
+   * @param network Name of the network being served, as to be included in alerts.
+   */
+  start (network: string) {
+    this.network = network
+    if (!alerts.webhook || this.minBalance <= 0 || this.timer) {
+      return
+    }
+    this.check()
+    this.timer = setInterval(() => this.check(), alerts.interval * 1000)
+    this.timer.unref()
+  }
+}
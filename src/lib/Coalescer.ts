@@ -0,0 +1,74 @@
+import { logger, SocketParams } from './Logger'
+
+// Read-only methods that can be safely coalesced
+export const READ_METHODS = [
+  'eth_blockNumber',
+  'eth_call',
+  'eth_chainId',
+  'eth_estimateGas',
+  'eth_feeHistory',
+  'eth_gasPrice',
+  'eth_getBalance',
+  'eth_getBlockByHash',
+  'eth_getBlockByNumber',
+  'eth_getBlockTransactionCountByHash',
+  'eth_getBlockTransactionCountByNumber',
+  'eth_getCode',
+  'eth_getLogs',
+  'eth_getStorageAt',
+  'eth_getTransactionByBlockHashAndIndex',
+  'eth_getTransactionByBlockNumberAndIndex',
+  'eth_getTransactionByHash',
+  'eth_getTransactionCount',
+  'eth_getTransactionReceipt',
+  'eth_maxPriorityFeePerGas',
+  'eth_syncing',
+  'net_version',
+  'web3_clientVersion'
+]
+
+/**
+ * Makes concurrent requests of the same read-only method, and same params, share one single call,
+ * so every waiting client gets the same result, or error.
+ *
+ * @remark Shared results must not be mutated by callers.
+ */
+export class RequestCoalescer {
+  inflight: { [key: string]: Promise<any> }
+  methods: string[]
+
+  constructor (methods: string[]) {
+    this.inflight = {}
+    this.methods = methods
+  }
+
+  /**
+   * Runs given call, unless an identical one is already in flight, in which case its result is awaited instead.
+   * @param socket Socket parms where the RPC call is coming from.
+   * @param method JSON-RPC method, as requested by the client.
+   * @param params JSON-RPC params, as requested by the client.
+   * @param call Function actually serving the request.
+   */
+  async run (
+    socket: SocketParams,
+    method: string,
+    params: any[] | undefined,
+    call: () => Promise<any>
+  ): Promise<any> {
+    if (!this.methods.includes(method)) {
+      return call()
+    }
+    const key = `${method}:${JSON.stringify(params || [])}`
+    if (key in this.inflight) {
+      logger.verbose({ socket, message: `> Coalesced with in-flight request` })
+      return this.inflight[key]
+    }
+    const promise = call()
+    this.inflight[key] = promise
+    try {
+      return await promise
+    } finally {
+      delete this.inflight[key]
+    }
+  }
+}
@@ -0,0 +1,327 @@
+import { existsSync, readFileSync } from 'fs'
+import { extname, join } from 'path'
+
+// Variables set within the process environment itself, before any .env file gets loaded
+const PROCESS_ENV_KEYS = new Set(Object.keys(process.env))
+
+require('dotenv').config()
+const yaml = require('js-yaml')
+
+// Profiles file shipped along with the package, one profile per supported network
+export const DEFAULT_PROFILES_FILE = join(
+  __dirname,
+  '..',
+  '..',
+  'networks.yaml'
+)
+
+// Profile keys describing the network itself, rather than settings of the gateway serving it
+const REGISTRY_KEYS = ['adapter', 'chainId']
+
+type SettingType =
+  | 'array'
+  | 'boolean'
+  | 'integer'
+  | 'number'
+  | 'object'
+  | 'string'
+
+/**
+ * Describes one single setting that can be given within a profile, and overridden from the environment:
+ * - `env`: environment variable overriding the value set within the profile, if any.
+ * - `type`: type of value expected, as to be validated.
+ * - `default`: value to be taken if neither set within the profile nor the environment.
+ * - `required`: whether a value must eventually be given.
+ * - `check`: further validation of values of the expected type (e.g. of nested fields), telling why a value
+ *   is not valid, if it's not.
+ */
+export interface Setting {
+  check?: (value: any) => string | undefined
+  default?: any
+  env: string
+  required?: boolean
+  type: SettingType
+}
+
+export type Schema<T> = { [K in keyof T]-?: Setting }
+
+/**
+ * Reads all profiles from a YAML or JSON file mapping profile names to settings.
+ */
+export function readProfiles (file: string): { [profile: string]: any } {
+  if (!existsSync(file)) {
+    throw new Error(`Config file not found: ${file}`)
+  }
+  let profiles: any
+  try {
+    const text = readFileSync(file, 'utf8')
+    profiles = extname(file) === '.json' ? JSON.parse(text) : yaml.load(text)
+  } catch (ex: any) {
+    throw new Error(`Cannot parse config file ${file}: ${ex?.message || ex}`)
+  }
+  return profiles || {}
+}
+
+/**
+ * Gets given profile from a YAML or JSON file mapping profile names to settings.
+ */
+export function readProfile (
+  file: string,
+  profile: string
+): { [key: string]: any } {
+  const settings = readProfiles(file)[profile]
+  if (!settings || typeof settings !== 'object' || Array.isArray(settings)) {
+    throw new Error(`No profile '${profile}' found in ${file}`)
+  }
+  return settings
+}
+
+/**
+ * Validates given value against given setting's type, converting it from text if read from the environment.
+ * @returns Reason why the value is not valid, if it's not.
+ */
+function validate (
+  setting: Setting,
+  value: any,
+  fromText: boolean
+): { reason?: string; value?: any } {
+  const given = JSON.stringify(value)
+  if (fromText && setting.type !== 'string') {
+    if (setting.type === 'integer' || setting.type === 'number') {
+      value = value.trim() === '' ? NaN : Number(value)
+    } else {
+      try {
+        value = JSON.parse(value)
+      } catch {
+        return {
+          reason: `expected ${describe(setting.type)}, got malformed JSON`
+        }
+      }
+    }
+  }
+  const valid =
+    setting.type === 'array'
+      ? Array.isArray(value)
+      : setting.type === 'integer'
+      ? Number.isInteger(value)
+      : setting.type === 'number'
+      ? typeof value === 'number' && !isNaN(value)
+      : setting.type === 'object'
+      ? typeof value === 'object' && value !== null && !Array.isArray(value)
+      : typeof value === setting.type
+  if (!valid) {
+    return { reason: `expected ${describe(setting.type)}, got ${given}` }
+  }
+  const reason = setting.check?.(value)
+  return reason ? { reason } : { value }
+}
+
+function describe (type: SettingType): string {
+  return type === 'array' || type === 'integer' || type === 'object'
+    ? `an ${type}`
+    : `a ${type}`
+}
+
+/**
+ * Takes `--config <file>` and `--profile <name>` options out of given command-line arguments.
+ * @returns Config file and profile, if any, and remaining positional arguments.
+ */
+export function parseArgs (argv: string[]): {
+  file: string
+  profile: string
+  positional: string[]
+} {
+  let file = process.env.ETHRPC_CONFIG || ''
+  let profile = process.env.ETHRPC_PROFILE || ''
+  const positional: string[] = []
+  for (let ix = 0; ix < argv.length; ix++) {
+    if (argv[ix] === '--config') {
+      file = argv[++ix] || ''
+    } else if (argv[ix] === '--profile') {
+      profile = argv[++ix] || ''
+    } else {
+      positional.push(argv[ix])
+    }
+  }
+  return { file, profile, positional }
+}
+
+/**
+ * Reads the .env file again, only overriding variables not set within the process environment itself, so the
+ * process environment keeps prevailing over the .env file, the same as on startup.
+ * @returns Names of all variables whose value changed.
+ */
+export function reloadDotenv (): string[] {
+  const parsed: { [name: string]: string } =
+    require('dotenv').config({ processEnv: {}, quiet: true }).parsed || {}
+  const changed = Object.keys(parsed).filter(
+    name => !PROCESS_ENV_KEYS.has(name) && process.env[name] !== parsed[name]
+  )
+  changed.forEach(name => {
+    process.env[name] = parsed[name]
+  })
+  return changed
+}
+
+/**
+ * Tells whether given key is one of the settings within given schema.
+ */
+function isSetting<T> (
+  schema: Schema<T>,
+  key: string
+): key is Extract<keyof T, string> {
+  return Object.prototype.hasOwnProperty.call(schema, key)
+}
+
+/**
+ * Resolves typed settings of given profile, if any, as overridden by the environment and positional command-line
+ * arguments, gathering all validation errors found along the way.
+ */
+function resolveConfig<T> (
+  schema: Schema<T>,
+  file: string,
+  profile: string,
+  positional: string[],
+  args: (keyof T)[],
+  defaults: Partial<T>,
+  except: (keyof T)[],
+  errors: string[]
+): T {
+  const keys = Object.keys(schema) as Extract<keyof T, string>[]
+  const config: Partial<T> = {}
+  keys.forEach(key => {
+    const value = defaults[key] ?? schema[key].default
+    if (value !== undefined) config[key] = value
+  })
+  if (profile) {
+    const path = file || DEFAULT_PROFILES_FILE
+    const settings = readProfile(path, profile)
+    Object.keys(settings).forEach(key => {
+      if (REGISTRY_KEYS.includes(key)) {
+        return
+      } else if (!isSetting(schema, key)) {
+        errors.push(
+          `unknown setting '${key}' in profile '${profile}' of ${path}`
+        )
+        return
+      }
+      const { reason, value } = validate(schema[key], settings[key], false)
+      if (reason) {
+        errors.push(`'${key}' in profile '${profile}' of ${path}: ${reason}`)
+      } else {
+        config[key] = value
+      }
+    })
+  } else if (file) {
+    throw new Error(
+      `No profile selected from ${file}: please use --profile <name>`
+    )
+  }
+  keys.forEach(key => {
+    const setting = schema[key]
+    const text = process.env[setting.env]
+    if (text && !except.includes(key)) {
+      const { reason, value } = validate(setting, text, true)
+      if (reason) {
+        errors.push(`${setting.env}: ${reason}`)
+      } else {
+        config[key] = value
+      }
+    }
+  })
+  args.forEach((key, index) => {
+    if (positional[index] !== undefined) {
+      const { reason, value } = validate(schema[key], positional[index], true)
+      if (reason) {
+        errors.push(`command-line argument #${index + 1}: ${reason}`)
+      } else {
+        config[key] = value
+      }
+    }
+  })
+  keys.forEach(key => {
+    const setting = schema[key]
+    if (setting.required && config[key] === undefined) {
+      errors.push(
+        profile && except.includes(key)
+          ? `no '${key}' was given: please set it within profile '${profile}'`
+          : `no '${key}' was given: please set it within the profile, or set the ${setting.env} environment variable`
+      )
+    }
+  })
+  return config as T
+}
+
+/**
+ * Loads typed settings from, in increasing order of precedence: given schema's defaults, the selected profile
+ * within the config file (if any), the environment and positional command-line arguments.
+ *
+ * The config file and profile are taken from the `--config <file>` and `--profile <name>` command-line options,
+ * or the `ETHRPC_CONFIG` and `ETHRPC_PROFILE` environment variables, the config file being the one shipped with
+ * the package if none is given.
+ *
+ * @param schema Settings that can be set, and how to validate them.
+ * @param args Settings that can also be passed as positional command-line arguments, in order.
+ * @param defaults Defaults overriding those given by the schema.
+ */
+export function loadConfig<T> (
+  schema: Schema<T>,
+  args: (keyof T)[] = [],
+  defaults: Partial<T> = {}
+): T {
+  const { file, profile, positional } = parseArgs(process.argv.slice(2))
+  const errors: string[] = []
+  const config = resolveConfig(
+    schema,
+    file,
+    profile,
+    positional,
+    args,
+    defaults,
+    [],
+    errors
+  )
+  if (errors.length > 0) {
+    throw new Error(`Invalid configuration:\n  - ${errors.join('\n  - ')}`)
+  }
+  return config
+}
+
+/**
+ * Loads typed settings of every given profile within the same config file, as to be served all from one single
+ * process. The environment overrides settings of every profile alike, except for those telling networks apart
+ * (e.g. the provider URL), which can only be set within every profile.
+ *
+ * @param schema Settings that can be set, and how to validate them.
+ * @param file Config file holding all profiles, the one shipped with the package if empty.
+ * @param profiles Names of the profiles to be loaded.
+ * @param except Settings that cannot be overridden from the environment.
+ * @param defaults Defaults overriding those given by the schema, either shared by all profiles or specific to
+ * every one of them.
+ */
+export function loadConfigs<T> (
+  schema: Schema<T>,
+  file: string,
+  profiles: string[],
+  except: (keyof T)[],
+  defaults: Partial<T> | ((profile: string) => Partial<T>) = {}
+): { [profile: string]: T } {
+  const errors: string[] = []
+  const configs: { [profile: string]: T } = {}
+  profiles.forEach(profile => {
+    configs[profile] = resolveConfig(
+      schema,
+      file,
+      profile,
+      [],
+      [],
+      typeof defaults === 'function' ? defaults(profile) : defaults,
+      except,
+      errors
+    )
+  })
+  if (errors.length > 0) {
+    throw new Error(`Invalid configuration:\n  - ${errors.join('\n  - ')}`)
+  }
+  return configs
+}
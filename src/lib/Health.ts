@@ -0,0 +1,82 @@
+import express from 'express'
+
+require('dotenv').config()
+
+// Max time a single readiness check can take, in milliseconds
+const CHECK_TIMEOUT = 5000
+
+/**
+ * Readiness thresholds, as set from the environment:
+ * - `ETHRPC_READY_MAX_HEAD_AGE`: max seconds since the head block was produced.
+ * - `ETHRPC_READY_MIN_BALANCE`: min balance, in native coins, that at least one managed wallet must hold.
+ */
+export const readiness = {
+  maxHeadAge: parseInt(process.env.ETHRPC_READY_MAX_HEAD_AGE || '120'),
+  minBalance: parseFloat(process.env.ETHRPC_READY_MIN_BALANCE || '0')
+}
+
+type CheckResult = { ok: boolean; [detail: string]: any }
+
+export type ReadinessChecks = { [name: string]: () => Promise<CheckResult> }
+
+/**
+ * Checks that the head block was produced recently enough.
+ * @param timestamp Head block timestamp, in seconds.
+ */
+export function checkHeadAge (head: number, timestamp: number): CheckResult {
+  const age = Math.floor(Date.now() / 1000) - timestamp
+  return { ok: age <= readiness.maxHeadAge, head, age }
+}
+
+/**
+ * Checks that at least one managed wallet holds more than the min balance, if there are managed wallets at all.
+ * @param balances Balance of every managed wallet, in native coins.
+ * @param minBalance Min balance, in native coins of the network being served.
+ */
+export function checkBalances (
+  balances: { [address: string]: number },
+  minBalance: number = readiness.minBalance
+): CheckResult {
+  const amounts = Object.values(balances)
+  return {
+    ok: amounts.length === 0 || amounts.some(balance => balance > minBalance),
+    minBalance,
+    balances
+  }
+}
+
+/**
+ * Express handler telling the process is alive.
+ */
+export function serveHealth (_req: express.Request, res: express.Response) {
+  res.status(200).json({ status: 'ok', uptime: Math.floor(process.uptime()) })
+}
+
+/**
+ * Creates Express handler running all given readiness checks, and replying with a breakdown of every one of them:
+ * status 200 if all passed, or 503 otherwise.
+ */
+export function serveReadiness (checks: ReadinessChecks) {
+  return async (_req: express.Request, res: express.Response) => {
+    const results: { [name: string]: CheckResult } = {}
+    await Promise.all(
+      Object.keys(checks).map(async name => {
+        let timer: NodeJS.Timeout | undefined
+        try {
+          results[name] = await Promise.race([
+            checks[name](),
+            new Promise<CheckResult>((_resolve, reject) => {
+              timer = setTimeout(() => reject('timeout'), CHECK_TIMEOUT)
+            })
+          ])
+        } catch (ex: any) {
+          results[name] = { ok: false, error: `${ex?.reason || ex}` }
+        } finally {
+          clearTimeout(timer)
+        }
+      })
+    )
+    const ready = Object.values(results).every(result => result.ok)
+    res.status(ready ? 200 : 503).json({ ready, checks: results })
+  }
+}
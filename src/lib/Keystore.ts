@@ -0,0 +1,139 @@
+import { Wallet } from 'ethers'
+import {
+  existsSync,
+  mkdirSync,
+  readdirSync,
+  readFileSync,
+  writeFileSync
+} from 'fs'
+import { join } from 'path'
+import { createInterface } from 'readline'
+import { Writable } from 'stream'
+
+require('dotenv').config()
+
+/**
+ * Keystore settings, as set from the environment:
+ * - `ETHRPC_KEYSTORE_DIR`: directory holding Web3 Secret Storage (V3) keystore files, one per wallet.
+ * - `ETHRPC_KEYSTORE_PASSWORD_FILE`: file holding the password to decrypt all keystore files.
+ * - `ETHRPC_KEYSTORE_PASSWORD`: password to decrypt all keystore files, if no password file is set.
+ * If neither is set, the password is prompted for interactively.
+ */
+export const keystore = {
+  dir: process.env.ETHRPC_KEYSTORE_DIR || '',
+  password: process.env.ETHRPC_KEYSTORE_PASSWORD || '',
+  passwordFile: process.env.ETHRPC_KEYSTORE_PASSWORD_FILE || ''
+}
+
+// Password typed in on the terminal, kept for keystore files to be decrypted again (e.g. on reload) with no TTY
+let promptedPassword: string | undefined
+
+/**
+ * Asks for a secret on the terminal, without echoing it.
+ */
+export function promptSecret (question: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    if (!process.stdin.isTTY) {
+      const what = question.replace(/:\s*$/, '').toLowerCase()
+      reject(new Error(`Cannot prompt for ${what} without a TTY`))
+      return
+    }
+    // Echo the question, but nothing of what gets typed, as readline only gets to write to a muted stream:
+    process.stdout.write(question)
+    const rl = createInterface({
+      input: process.stdin,
+      output: new Writable({
+        write: (_chunk, _encoding, callback) => callback()
+      }),
+      terminal: true
+    })
+    rl.question('', answer => {
+      rl.close()
+      process.stdout.write('\n')
+      resolve(answer)
+    })
+  })
+}
+
+/**
+ * Gets the keystore password from the password file, the environment or the terminal, in that order.
+ * The password is only asked for on the terminal once, and then reused.
+ */
+export async function readPassword (): Promise<string> {
+  if (keystore.passwordFile) {
+    return readFileSync(keystore.passwordFile, 'utf8').replace(/\r?\n$/, '')
+  } else if (keystore.password) {
+    return keystore.password
+  } else {
+    if (promptedPassword === undefined) {
+      promptedPassword = await promptSecret('Keystore password: ')
+    }
+    return promptedPassword
+  }
+}
+
+/**
+ * Decrypts all keystore files within the keystore directory, if any.
+ * @returns Private keys of all decrypted wallets, as to be kept in memory only.
+ */
+export async function loadKeystore (): Promise<string[]> {
+  if (!keystore.dir) {
+    return []
+  }
+  const files = readdirSync(keystore.dir)
+    .filter(file => !file.startsWith('.'))
+    .sort()
+  if (files.length === 0) {
+    throw new Error(`No keystore files found in ${keystore.dir}`)
+  }
+  const password = await readPassword()
+  const privateKeys: string[] = []
+  for (const file of files) {
+    const json = readFileSync(join(keystore.dir, file), 'utf8')
+    try {
+      const wallet = await Wallet.fromEncryptedJson(json, password)
+      privateKeys.push(wallet.privateKey)
+    } catch (ex: any) {
+      throw new Error(
+        `Cannot decrypt keystore file ${file}: ${ex?.message || ex}`
+      )
+    }
+  }
+  return privateKeys
+}
+
+/**
+ * Encrypts given private key, or the first `count` wallets derived from given mnemonic phrase,
+ * into new keystore files within the keystore directory.
+ * @returns Addresses of all imported wallets.
+ */
+export async function importSecret (
+  secret: string,
+  password: string,
+  count: number = 1
+): Promise<string[]> {
+  const wallets = secret.trim().includes(' ')
+    ? Array.from(
+        { length: count },
+        // Only derived private keys get stored, not the mnemonic phrase itself:
+        (_, ix) =>
+          new Wallet(
+            Wallet.fromMnemonic(secret.trim(), `m/44'/60'/0'/0/${ix}`).privateKey
+          )
+      )
+    : [new Wallet(secret.trim())]
+  if (!existsSync(keystore.dir)) {
+    mkdirSync(keystore.dir, { mode: 0o700, recursive: true })
+  }
+  const addresses: string[] = []
+  for (const wallet of wallets) {
+    const timestamp = new Date().toISOString().replace(/:/g, '-')
+    const file = join(
+      keystore.dir,
+      `UTC--${timestamp}--${wallet.address.substring(2).toLowerCase()}`
+    )
+    writeFileSync(file, await wallet.encrypt(password), { mode: 0o600 })
+    addresses.push(wallet.address)
+  }
+  return addresses
+}
@@ -0,0 +1,151 @@
+import express from 'express'
+
+require('dotenv').config()
+
+// Methods consuming tokens from the signing bucket, rather than the read bucket
+export const SIGN_METHODS = [
+  'cfx_sendTransaction',
+  'eth_sendTransaction',
+  'eth_sign',
+  'eth_signTransaction',
+  'eth_signTypedData',
+  'eth_signTypedData_v3',
+  'eth_signTypedData_v4',
+  'personal_sign'
+]
+
+// Buckets not used within this time get forgotten, in milliseconds
+const IDLE_TIMEOUT = 300000
+
+const readRate = parseFloat(process.env.ETHRPC_RATE_LIMIT_READ || '0')
+const signRate = parseFloat(process.env.ETHRPC_RATE_LIMIT_SIGN || '0')
+
+/**
+ * Request limits, as set from the environment:
+ * - `ETHRPC_RATE_LIMIT_READ` and `ETHRPC_RATE_LIMIT_SIGN`: requests per second allowed to every client
+ *   (0 for unlimited), with bursts of up to `ETHRPC_RATE_LIMIT_READ_BURST` and `ETHRPC_RATE_LIMIT_SIGN_BURST`.
+ * - `ETHRPC_MAX_BATCH_SIZE`: max number of requests within a batch (0 for unlimited).
+ * - `ETHRPC_MAX_BODY_SIZE`: max size of request bodies, in bytes.
+ */
+export const limits = {
+  maxBatchSize: parseInt(process.env.ETHRPC_MAX_BATCH_SIZE || '0'),
+  maxBodySize: parseInt(process.env.ETHRPC_MAX_BODY_SIZE || '102400'),
+  readBurst: parseFloat(
+    process.env.ETHRPC_RATE_LIMIT_READ_BURST || `${Math.max(readRate, 1)}`
+  ),
+  readRate,
+  signBurst: parseFloat(
+    process.env.ETHRPC_RATE_LIMIT_SIGN_BURST || `${Math.max(signRate, 1)}`
+  ),
+  signRate
+}
+
+interface Bucket {
+  lastRefill: number
+  tokens: number
+}
+
+/**
+ * Composes JSON-RPC `limit exceeded` exception, as to be thrown from within request handlers.
+ */
+export function limitExceeded (reason: string) {
+  return {
+    reason,
+    body: {
+      error: {
+        code: -32005,
+        message: reason
+      }
+    }
+  }
+}
+
+/**
+ * Express error handler replying with a JSON-RPC `limit exceeded` error to requests whose body is too large.
+ */
+export function bodySizeGuard (
+  err: any,
+  _req: express.Request,
+  res: express.Response,
+  next: express.NextFunction
+) {
+  if (err?.type === 'entity.too.large') {
+    res.status(413).json({
+      jsonrpc: '2.0',
+      id: null,
+      ...limitExceeded(`Request body too large (max ${limits.maxBodySize} bytes)`)
+        .body
+    })
+  } else {
+    next(err)
+  }
+}
+
+/**
+ * Token-bucket rate limiter, with separate buckets for signing and read methods on every client.
+ */
+export class RateLimiter {
+  buckets: { [client: string]: { read: Bucket; sign: Bucket } }
+  timer?: NodeJS.Timeout
+
+  constructor () {
+    this.buckets = {}
+    if (limits.readRate > 0 || limits.signRate > 0) {
+      this.timer = setInterval(() => this.sweep(), IDLE_TIMEOUT)
+      this.timer.unref()
+    }
+  }
+
+  /**
+   * Tells whether given batch length exceeds the max batch size.
+   */
+  exceedsBatchSize (length: number): boolean {
+    return limits.maxBatchSize > 0 && length > limits.maxBatchSize
+  }
+
+  /**
+   * Forgets buckets of clients not seen for a while.
+   */
+  sweep () {
+    const since = Date.now() - IDLE_TIMEOUT
+    Object.keys(this.buckets).forEach(client => {
+      const { read, sign } = this.buckets[client]
+      if (read.lastRefill < since && sign.lastRefill < since) {
+        delete this.buckets[client]
+      }
+    })
+  }
+
+  /**
+   * Takes one token from the client's bucket corresponding to the given method.
+   * @param client Client IP address, or API key.
+   * @param method JSON-RPC method.
+   * @returns `false` if the bucket is empty, and therefore the request must be rejected.
+   */
+  take (client: string, method: string): boolean {
+    const signing = SIGN_METHODS.includes(method)
+    const rate = signing ? limits.signRate : limits.readRate
+    if (rate <= 0) {
+      return true
+    }
+    const capacity = signing ? limits.signBurst : limits.readBurst
+    const now = Date.now()
+    if (!this.buckets[client]) {
+      this.buckets[client] = {
+        read: { lastRefill: now, tokens: limits.readBurst },
+        sign: { lastRefill: now, tokens: limits.signBurst }
+      }
+    }
+    const bucket = this.buckets[client][signing ? 'sign' : 'read']
+    bucket.tokens = Math.min(
+      capacity,
+      bucket.tokens + ((now - bucket.lastRefill) / 1000) * rate
+    )
+    bucket.lastRefill = now
+    if (bucket.tokens < 1) {
+      return false
+    }
+    bucket.tokens -= 1
+    return true
+  }
+}
@@ -7,13 +7,14 @@ export interface SocketParams {
   clientAddr: string
   clientPort: number
   clientId: number
+  network?: string
   serverId: number
 }
 
 type LogMessage = {
   level: string
   message: string
-  socket: SocketParams
+  socket?: SocketParams
   timestamp: string
 }
 
@@ -23,10 +24,15 @@ export function zeroPad (num: number, places: number) {
 
 const logFormat = printf(
   ({ level, message, socket, timestamp }: LogMessage) => {
-    return `${timestamp} [${socket.clientAddr}:${socket.clientPort}::${zeroPad(
-      socket.serverId,
-      4
-    )}][${level}] ${message}`
+    // messages not related to any client request are traced as coming from the gateway itself,
+    //   while requests are prefixed with the network they're targeting, if served along with others:
+    const source = socket
+      ? `${socket.network ? `${socket.network}@` : ''}${socket.clientAddr}:${socket.clientPort}::${zeroPad(
+          socket.serverId,
+          4
+        )}`
+      : 'gateway'
+    return `${timestamp} [${source}][${level}] ${message}`
   }
 )
 
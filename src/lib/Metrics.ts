@@ -0,0 +1,244 @@
+import express from 'express'
+import { READ_METHODS } from './Coalescer'
+import { logger } from './Logger'
+
+type Labels = { [name: string]: string | number }
+
+// Upper bounds of the upstream latency histogram buckets, in seconds
+const LATENCY_BUCKETS = [0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10]
+
+function formatLabels (labels: Labels): string {
+  const pairs = Object.keys(labels)
+    .sort()
+    .map(
+      name =>
+        `${name}="${String(labels[name])
+          .replace(/\\/g, '\\\\')
+          .replace(/"/g, '\\"')
+          .replace(/\n/g, '\\n')}"`
+    )
+  return pairs.length > 0 ? `{${pairs.join(',')}}` : ''
+}
+
+/**
+ * Metric holding one value per combination of labels.
+ */
+export class Metric {
+  help: string
+  name: string
+  type: 'counter' | 'gauge'
+  values: { [labels: string]: number }
+
+  constructor (name: string, help: string, type: 'counter' | 'gauge') {
+    this.help = help
+    this.name = name
+    this.type = type
+    this.values = {}
+  }
+
+  inc (labels: Labels = {}, value: number = 1) {
+    const key = formatLabels(labels)
+    this.values[key] = (this.values[key] || 0) + value
+  }
+
+  render (): string[] {
+    return [
+      `# HELP ${this.name} ${this.help}`,
+      `# TYPE ${this.name} ${this.type}`,
+      ...Object.keys(this.values).map(
+        labels => `${this.name}${labels} ${this.values[labels]}`
+      )
+    ]
+  }
+
+  set (labels: Labels, value: number) {
+    this.values[formatLabels(labels)] = value
+  }
+}
+
+/**
+ * Histogram of observed values per combination of labels.
+ */
+export class Histogram {
+  buckets: number[]
+  help: string
+  name: string
+  series: {
+    [labels: string]: {
+      counts: number[]
+      count: number
+      labels: Labels
+      sum: number
+    }
+  }
+
+  constructor (name: string, help: string, buckets: number[]) {
+    this.buckets = buckets
+    this.help = help
+    this.name = name
+    this.series = {}
+  }
+
+  observe (labels: Labels, value: number) {
+    const key = formatLabels(labels)
+    if (!this.series[key]) {
+      this.series[key] = {
+        counts: this.buckets.map(() => 0),
+        count: 0,
+        labels,
+        sum: 0
+      }
+    }
+    const series = this.series[key]
+    this.buckets.forEach((bound, index) => {
+      if (value <= bound) series.counts[index]++
+    })
+    series.count++
+    series.sum += value
+  }
+
+  render (): string[] {
+    const lines = [
+      `# HELP ${this.name} ${this.help}`,
+      `# TYPE ${this.name} histogram`
+    ]
+    Object.keys(this.series).forEach(key => {
+      const { counts, count, labels, sum } = this.series[key]
+      this.buckets.forEach((bound, index) => {
+        const bucket = formatLabels({ ...labels, le: bound })
+        lines.push(`${this.name}_bucket${bucket} ${counts[index]}`)
+      })
+      const bucket = formatLabels({ ...labels, le: '+Inf' })
+      lines.push(`${this.name}_bucket${bucket} ${count}`)
+      lines.push(`${this.name}_sum${key} ${sum}`)
+      lines.push(`${this.name}_count${key} ${count}`)
+    })
+    return lines
+  }
+
+  /**
+   * Measures time taken by given promise to settle, in seconds.
+   */
+  async time<T> (labels: Labels, promise: Promise<T>): Promise<T> {
+    const start = Date.now()
+    try {
+      return await promise
+    } finally {
+      this.observe(labels, (Date.now() - start) / 1000)
+    }
+  }
+}
+
+/**
+ * Registry of all metrics exposed by the gateway, plus collectors refreshing gauges right before being scraped.
+ */
+export class MetricsRegistry {
+  collectors: (() => Promise<void>)[]
+  metrics: (Histogram | Metric)[]
+
+  constructor () {
+    this.collectors = []
+    this.metrics = []
+  }
+
+  /**
+   * Registers function to be called before every scrape.
+   */
+  collect (collector: () => Promise<void>) {
+    this.collectors.push(collector)
+  }
+
+  counter (name: string, help: string): Metric {
+    const metric = new Metric(name, help, 'counter')
+    this.metrics.push(metric)
+    return metric
+  }
+
+  gauge (name: string, help: string): Metric {
+    const metric = new Metric(name, help, 'gauge')
+    this.metrics.push(metric)
+    return metric
+  }
+
+  histogram (name: string, help: string, buckets: number[]): Histogram {
+    const metric = new Histogram(name, help, buckets)
+    this.metrics.push(metric)
+    return metric
+  }
+
+  /**
+   * Renders all metrics in the Prometheus text exposition format.
+   */
+  async render (): Promise<string> {
+    await Promise.all(
+      this.collectors.map(collector =>
+        collector().catch(ex =>
+          logger.warn({ message: `Cannot collect metrics: ${ex}` })
+        )
+      )
+    )
+    return (
+      this.metrics
+        .map(metric => metric.render())
+        .reduce((lines, more) => [...lines, ...more], [])
+        .join('\n') + '\n'
+    )
+  }
+
+  /**
+   * Express handler serving all metrics.
+   */
+  async serve (_req: express.Request, res: express.Response) {
+    res
+      .status(200)
+      .type('text/plain; version=0.0.4')
+      .send(await this.render())
+  }
+}
+
+/**
+ * Gets the label of given JSON-RPC method, as to be kept within metrics. Methods neither handled by the gateway
+ * itself nor among the standard read-only ones are labelled as `other`, as clients could otherwise make up
+ * as many labels as they wish.
+ */
+export function methodLabel (method: string, handled: boolean): string {
+  return handled || READ_METHODS.includes(method) ? method : 'other'
+}
+
+export const metrics = new MetricsRegistry()
+
+export const lastKnownBlock = metrics.gauge(
+  'ethrpc_last_known_block',
+  'Last block (or epoch) number known to the gateway'
+)
+
+export const requestsRouted = metrics.counter(
+  'ethrpc_requests_routed_total',
+  'JSON-RPC requests either intercepted by the gateway, or forwarded to the upstream provider'
+)
+
+export const requestsTotal = metrics.counter(
+  'ethrpc_requests_total',
+  'JSON-RPC requests by method and outcome'
+)
+
+export const rollbacksTotal = metrics.counter(
+  'ethrpc_rollbacks_total',
+  'Rollbacks detected on the upstream chain, by severity'
+)
+
+export const upstreamLatency = metrics.histogram(
+  'ethrpc_upstream_latency_seconds',
+  'Latency of calls to the upstream provider, by method',
+  LATENCY_BUCKETS
+)
+
+export const walletBalance = metrics.gauge(
+  'ethrpc_wallet_balance',
+  'Balance of every managed wallet, in native coins'
+)
+
+export const walletNonce = metrics.gauge(
+  'ethrpc_wallet_nonce',
+  'Mined transaction count of every managed wallet'
+)
@@ -0,0 +1,123 @@
+import axios from 'axios'
+import { DEFAULT_PROFILES_FILE, readProfiles } from './Config'
+
+// Max time to wait for the upstream provider to tell its chain id, in milliseconds
+const CHAIN_ID_TIMEOUT = 10000
+
+export type Adapter = 'conflux' | 'ethers' | 'reef' | 'ten'
+
+// Profile settings telling how the gateway is tuned for every network, as listed along with it. Any other
+// settings (e.g. wallets or API keys) are never listed, as they may hold secrets.
+const QUIRKS = [
+  'alwaysSynced',
+  'epochLabel',
+  'estimateGasLimit',
+  'estimateGasPrice',
+  'ethGasPriceFactor',
+  'forceEip155',
+  'forceEip1559',
+  'gasLimit',
+  'gasLimitFactor',
+  'gasPrice',
+  'gasPriceFactor',
+  'interleaveBlocks',
+  'interleaveEpochs',
+  'mockFilters',
+  'network',
+  'networkId'
+]
+
+// Gateway binary serving networks of every adapter, relative to `dist/bin`
+export const ADAPTER_BINS: { [adapter in Adapter]: string } = {
+  conflux: 'conflux/index.js',
+  ethers: 'ethers/index.js',
+  reef: 'reef/index.js',
+  ten: 'ethers/ten.js'
+}
+
+/**
+ * Describes one supported network:
+ * - `name`: network name, as `<ecosystem>:<network>` (e.g. `ethereum:sepolia`).
+ * - `adapter`: gateway flavour serving the network.
+ * - `chainId`: chain id expected from the upstream provider.
+ * - `port`: default listening port.
+ * - `rpcUrl`: default public RPC provider URL.
+ * - `quirks`: gateway settings tuned for the network (e.g. `mockFilters` or `forceEip155`).
+ */
+export interface NetworkEntry {
+  adapter: Adapter
+  chainId: number
+  ecosystem: string
+  name: string
+  port: number
+  quirks: { [setting: string]: any }
+  rpcUrl: string
+}
+
+/**
+ * Loads all supported networks from the profiles within given config file, which defaults to the
+ * one set by `ETHRPC_CONFIG`, or the one shipped with the package.
+ */
+export function loadRegistry (
+  file: string = process.env.ETHRPC_CONFIG || DEFAULT_PROFILES_FILE
+): NetworkEntry[] {
+  const profiles = readProfiles(file)
+  return Object.keys(profiles).map(name => {
+    const { adapter, chainId, port, providerUrl } = profiles[name]
+    if (!Object.keys(ADAPTER_BINS).includes(adapter)) {
+      throw new Error(
+        `Unknown adapter for network '${name}' in ${file}: ${JSON.stringify(
+          adapter
+        )}`
+      )
+    } else if (!Number.isInteger(chainId)) {
+      throw new Error(
+        `Invalid chain id for network '${name}' in ${file}: ${JSON.stringify(
+          chainId
+        )}`
+      )
+    }
+    return {
+      adapter,
+      chainId,
+      ecosystem: name.split(':')[0],
+      name,
+      port,
+      quirks: Object.fromEntries(
+        Object.entries(profiles[name]).filter(([key]) => QUIRKS.includes(key))
+      ),
+      rpcUrl: providerUrl
+    }
+  })
+}
+
+/**
+ * Asks given upstream provider for its chain id, and checks it matches the one expected for given network.
+ * Reef nodes are not checked, as they're not reached through JSON-RPC over HTTP.
+ * @returns Reason why the upstream provider doesn't serve the network, if it doesn't.
+ */
+export async function checkChainId (
+  network: NetworkEntry,
+  url: string
+): Promise<string | undefined> {
+  if (network.adapter === 'reef') {
+    return undefined
+  }
+  const method = network.adapter === 'conflux' ? 'cfx_getStatus' : 'eth_chainId'
+  const response = await axios.post(
+    url,
+    { jsonrpc: '2.0', id: 1, method, params: [] },
+    { timeout: CHAIN_ID_TIMEOUT }
+  )
+  if (response.data?.error) {
+    throw new Error(response.data.error.message || response.data.error)
+  }
+  const result = response.data?.result
+  const chainId = parseInt(
+    network.adapter === 'conflux' ? result?.chainId : result
+  )
+  if (chainId !== network.chainId) {
+    return `${url} serves chain id ${chainId} instead of ${network.chainId}`
+  }
+  return undefined
+}
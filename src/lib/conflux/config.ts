@@ -0,0 +1,57 @@
+import { Schema } from '../Config'
+
+interface ConfluxConfig {
+  alwaysSynced: boolean
+  epochLabel: string
+  estimateGasPrice: boolean
+  gasLimit: number
+  gasPrice: number
+  interleaveEpochs: number
+  networkId: number
+  port: number
+  privateKeys: string[]
+  providerUrl: string
+}
+
+/**
+ * Settings taken by the Conflux gateway, as to be set within a profile, or from the environment:
+ * - `providerUrl`: URL of the Conflux JSON-RPC provider.
+ * - `networkId`: network id to connect with.
+ * - `port`: listening port for the server.
+ * - `privateKeys`: array of private keys to generate the server's own wrapped wallets from.
+ * - `interleaveEpochs`: number of epochs before latest state on which calls will be performed.
+ * - `gasPrice` and `gasLimit`: defaults to be used before signing a transaction, if not specified by the caller.
+ * - `estimateGasPrice`: let provider estimate gas price before signing the transaction.
+ * - `epochLabel`: epoch number tag to be used as default value on those RPC methods that may require it.
+ * - `alwaysSynced`: force responses to `eth_syncing` as being always `false`.
+ */
+const confluxSettings: Schema<ConfluxConfig> = {
+  alwaysSynced: {
+    env: 'ETHRPC_CONFLUX_ALWAYS_SYNCED',
+    type: 'boolean',
+    default: true
+  },
+  epochLabel: {
+    env: 'ETHRPC_CONFLUX_DEFAULT_EPOCH_LABEL',
+    type: 'string',
+    default: 'latest_finalized'
+  },
+  estimateGasPrice: {
+    env: 'ETHRPC_CONFLUX_ESTIMATE_GAS_PRICE',
+    type: 'boolean',
+    default: false
+  },
+  gasLimit: { env: 'ETHRPC_CONFLUX_GAS_LIMIT', type: 'integer', default: 21000 },
+  gasPrice: { env: 'ETHRPC_CONFLUX_GAS_PRICE', type: 'integer', default: 1 },
+  interleaveEpochs: {
+    env: 'ETHRPC_CALL_INTERLEAVE_BLOCKS',
+    type: 'integer',
+    default: 0
+  },
+  networkId: { env: 'ETHRPC_NETWORK', type: 'integer', required: true },
+  port: { env: 'ETHRPC_PORT', type: 'integer', required: true },
+  privateKeys: { env: 'ETHRPC_PRIVATE_KEYS', type: 'array', default: [] },
+  providerUrl: { env: 'ETHRPC_PROVIDER_URL', type: 'string', required: true }
+}
+
+export { ConfluxConfig, confluxSettings }
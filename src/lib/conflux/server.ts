@@ -2,7 +2,30 @@ import express, { Express } from 'express'
 import cors from 'cors'
 import { Conflux, Transaction, format as confluxFormat } from 'js-conflux-sdk'
 import { ethers } from 'ethers'
+import { BalanceWatcher } from '../Alerts'
+import { READ_METHODS, RequestCoalescer } from '../Coalescer'
+import {
+  checkBalances,
+  checkHeadAge,
+  serveHealth,
+  serveReadiness
+} from '../Health'
+import {
+  bodySizeGuard,
+  limitExceeded,
+  limits,
+  RateLimiter
+} from '../Limiter'
 import { logger, SocketParams, traceKeyValue } from '../Logger'
+import {
+  lastKnownBlock,
+  methodLabel,
+  metrics,
+  requestsRouted,
+  requestsTotal,
+  walletBalance,
+  walletNonce
+} from '../Metrics'
 import { WalletWrapper } from './wrapper'
 
 interface WalletWrapperInfo {
@@ -21,7 +44,10 @@ interface WalletWrapperInfo {
  * provider, e.g. Infura.
  */
 export class WalletMiddlewareServer {
+  coalescer: RequestCoalescer
   expressServer: Express
+  limiter: RateLimiter
+  watcher: BalanceWatcher
   wrapper: WalletWrapper
 
   dictionaryEthCfx: { [K: string]: string } = {
@@ -53,7 +79,12 @@ export class WalletMiddlewareServer {
     epochLabel: string,
     alwaysSynced: boolean
   ) {
+    this.coalescer = new RequestCoalescer([
+      ...READ_METHODS,
+      ...Object.values(this.dictionaryEthCfx)
+    ])
     this.expressServer = express()
+    this.limiter = new RateLimiter()
 
     this.wrapper = new WalletWrapper(
       networkId,
@@ -92,6 +123,22 @@ export class WalletMiddlewareServer {
       net_version: this.wrapper.getNetworkId,
     }
 
+    this.watcher = new BalanceWatcher(() => this.getBalances())
+
+    metrics.collect(async () => {
+      lastKnownBlock.set({}, this.wrapper.lastKnownEpochNumber)
+      for (const address of this.wrapper.getAccounts()) {
+        const info = (await this.wrapper.getAccountInfo(
+          address
+        )) as WalletWrapperInfo
+        walletBalance.set(
+          { address },
+          parseFloat(ethers.utils.formatEther(info.balance))
+        )
+        walletNonce.set({ address }, Number(info.nonce))
+      }
+    })
+
     traceKeyValue('Conflux provider', [
       ['Network id       ', networkId],
       ['Provider URL     ', url],
@@ -107,13 +154,56 @@ export class WalletMiddlewareServer {
     return this
   }
 
+  /**
+   * Gets balance of every managed wallet, in CFX.
+   */
+  async getBalances(): Promise<{ [address: string]: number }> {
+    const balances: { [address: string]: number } = {}
+    for (const address of this.wrapper.getAccounts()) {
+      const info = (await this.wrapper.getAccountInfo(
+        address
+      )) as WalletWrapperInfo
+      balances[address] = parseFloat(ethers.utils.formatEther(info.balance))
+    }
+    return balances
+  }
+
   /**
    * Initializes the Express server, configures CORS, and passes requests back and forth between the Express server and
    * the `JsonRpcEngine`.
    */
   initialize() {
     this.expressServer.use(cors())
-    this.expressServer.use(express.json())
+    this.expressServer.use(express.json({ limit: limits.maxBodySize }))
+
+    this.expressServer.get('/health', serveHealth)
+    this.expressServer.get('/metrics', (req, res) => metrics.serve(req, res))
+    this.expressServer.get(
+      '/ready',
+      serveReadiness({
+        upstream: async () => ({
+          ok: true,
+          epoch: Number(await this.wrapper.conflux.getEpochNumber())
+        }),
+        chainId: async () => {
+          const status: any = await this.wrapper.conflux.getStatus()
+          const chainId = Number(status.chainId)
+          const expected = this.wrapper.networkId
+          return { ok: chainId === expected, chainId, expected }
+        },
+        head: async () => {
+          const block: any = await this.wrapper.conflux.getBlockByEpochNumber(
+            'latest_state',
+            false
+          )
+          return checkHeadAge(
+            Number(block.epochNumber),
+            Number(block.timestamp)
+          )
+        },
+        wallets: async () => checkBalances(await this.getBalances())
+      })
+    )
 
     this.expressServer.post(
       '/{*any}',
@@ -128,6 +218,14 @@ export class WalletMiddlewareServer {
         }
 
         const requests = Array.isArray(body) ? [...body] : [body]
+        if (this.limiter.exceedsBatchSize(requests.length)) {
+          const reason = `Batch too long (max ${limits.maxBatchSize} requests)`
+          logger.warn({ socket, message: `<= ${reason}` })
+          res
+            .status(200)
+            .json({ jsonrpc: '2.0', id: null, ...limitExceeded(reason).body })
+          return
+        }
 
         Promise.all(requests.map(async request => {
           let method = request.method
@@ -164,37 +262,60 @@ export class WalletMiddlewareServer {
           let result
 
           try {
-            if (method in this.rpcParamsHandlers) {
-              request.params = await this.rpcParamsHandlers[method].bind(this)(
-                request.params,
-                socket
-              )
+            if (!this.limiter.take(socket.clientAddr, method)) {
+              throw limitExceeded('Rate limit exceeded')
             }
 
-            if (request.method in this.rpcMethodHandlers) {
-              result = await this.rpcMethodHandlers[request.method].bind(
-                this.wrapper
-              )(...(request.params || []), socket)
-            } else {
-              if (request.method.startsWith('eth_')) {
-                const reason = `Unhandled method '${request.method}'`
-                throw {
-                  reason,
-                  body: {
-                    error: {
-                      code: -32601,
-                      message: reason
+            // Identical requests in flight share one single call (and translation of its result):
+            result = await this.coalescer.run(
+              socket,
+              method,
+              request.params,
+              async () => {
+                if (method in this.rpcParamsHandlers) {
+                  request.params = await this.rpcParamsHandlers[method].bind(
+                    this
+                  )(request.params, socket)
+                }
+
+                let result
+                if (request.method in this.rpcMethodHandlers) {
+                  result = await this.rpcMethodHandlers[request.method].bind(
+                    this.wrapper
+                  )(...(request.params || []), socket)
+                } else {
+                  if (request.method.startsWith('eth_')) {
+                    const reason = `Unhandled method '${request.method}'`
+                    throw {
+                      reason,
+                      body: {
+                        error: {
+                          code: -32601,
+                          message: reason
+                        }
+                      }
                     }
                   }
+                  result = await this.wrapper.send(
+                    request.method,
+                    request.params
+                  )
+                }
+                if (
+                  method.startsWith('eth_') &&
+                  result &&
+                  typeof result === 'object'
+                ) {
+                  result = this.translateCfxResponseObject(result, socket)
                 }
+                return result
               }
-              result = await this.wrapper.send(request.method, request.params)
-            }
+            )
 
             response = { ...header, result }
           } catch (exception: any) {
-            if (!exception.code) {
-              // if no error code is specified,
+            if (!exception.code && !exception.body?.error) {
+              // if no error code nor JSON-RPC error body is specified,
               //   assume the Conflux provider is actually reporting an execution error:
               exception = {
                 reason: exception.toString(),
@@ -240,6 +361,20 @@ export class WalletMiddlewareServer {
               }
             }
           }
+          requestsRouted.inc({
+            route:
+              request.method in this.rpcMethodHandlers
+                ? 'intercepted'
+                : 'forwarded'
+          })
+          requestsTotal.inc({
+            method: methodLabel(
+              method,
+              method in this.dictionaryEthCfx ||
+                request.method in this.rpcMethodHandlers
+            ),
+            outcome: response.error ? 'error' : 'success'
+          })
           if (response.error) {
             logger.log({
               level: 'warn',
@@ -247,13 +382,6 @@ export class WalletMiddlewareServer {
               message: `<= Error: ${JSON.stringify(response.error)}`
             })
           } else {
-            if (
-              method.startsWith('eth_') &&
-              result &&
-              typeof result === 'object'
-            ) {
-              result = this.translateCfxResponseObject(result, socket)
-            }
             logger.log({
               level: 'http',
               socket,
@@ -270,6 +398,7 @@ export class WalletMiddlewareServer {
         })
       }
     )
+    this.expressServer.use(bodySizeGuard)
     return this
   }
 
@@ -300,6 +429,8 @@ export class WalletMiddlewareServer {
       ])
     })
 
+    this.watcher.start(`conflux (${this.wrapper.networkId})`)
+
     console.log(
       `Listening on ${hostname || '0.0.0.0'
       }:${port} [${logger.level.toUpperCase()}]`
@@ -1,6 +1,7 @@
 import { Conflux, Transaction, CONST } from 'js-conflux-sdk'
 
 import { logger, SocketParams } from '../Logger'
+import { methodLabel, rollbacksTotal, upstreamLatency } from '../Metrics'
 
 /**
  * Wraps the Conflux Wallet so it's compatible with the RPC gateway of
@@ -93,7 +94,12 @@ export class WalletWrapper {
   async checkRollbacks (socket: SocketParams): Promise<number> {
     const epoch = await this.conflux.getEpochNumber(this.epochLabel)
     if (epoch < this.lastKnownEpochNumber) {
-      if (epoch <= this.lastKnownEpochNumber - this.interleaveEpochs) {
+      const severity =
+        epoch <= this.lastKnownEpochNumber - this.interleaveEpochs
+          ? 'threatening'
+          : 'harmless'
+      rollbacksTotal.inc({ severity })
+      if (severity === 'threatening') {
         logger.warn({
           socket,
           message: `Threatening rollback: from epoch ${this.lastKnownEpochNumber} down to ${epoch}`
@@ -348,9 +354,12 @@ export class WalletWrapper {
    * @returns
    */
   async send (method: string, params: any[]) {
-    return params && params.length > 0
-      ? this.conflux.provider.call(method, ...params)
-      : this.conflux.provider.call(method)
+    return upstreamLatency.time(
+      { method: methodLabel(method, false) },
+      params && params.length > 0
+        ? this.conflux.provider.call(method, ...params)
+        : this.conflux.provider.call(method)
+    )
   }
 }
 
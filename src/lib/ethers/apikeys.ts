@@ -0,0 +1,120 @@
+import { ethers } from 'ethers'
+import { IncomingMessage } from 'http'
+import { SIGN_METHODS } from '../Limiter'
+
+type ApiKeyScope = 'admin' | 'read' | 'sign'
+
+interface ApiKey {
+  accounts?: string[]
+  id?: string
+  scopes: ApiKeyScope[]
+}
+
+/**
+ * Authenticates clients by API key, given either as an `Authorization: Bearer <key>` header,
+ * or as the last segment of the URL path, and tells which methods and accounts every key is allowed to use:
+ * - `read`: methods passed through to the provider.
+ * - `sign`: methods signing with managed wallets, optionally restricted to a list of `accounts`.
+ * - `admin`: the gateway's own `gateway_*` methods.
+ *
+ * An admin key can also be given on its own, granting all scopes, in which case authentication is only
+ * required by admin methods.
+ */
+class ApiKeyRegistry {
+  keys: Map<string, ApiKey>
+  required: boolean
+
+  constructor (api_keys: { [key: string]: ApiKey }, admin_key: string = '') {
+    this.keys = new Map<string, ApiKey>()
+    this.required = Object.keys(api_keys).length > 0
+    Object.keys(api_keys).forEach(key => {
+      this.keys.set(key, { ...api_keys[key], id: key })
+    })
+    if (admin_key) {
+      this.keys.set(admin_key, {
+        id: 'admin',
+        scopes: ['admin', 'read', 'sign']
+      })
+    }
+  }
+
+  /**
+   * Tells whether any of the keys grants the admin scope.
+   */
+  hasAdmin (): boolean {
+    return [...this.keys.values()].some(key => key.scopes.includes('admin'))
+  }
+
+  /**
+   * Gets the API key of the given HTTP request, or WebSocket upgrade request, if any valid. Keys are kept
+   * within a map, so tokens like `constructor` or `__proto__` cannot resolve to inherited properties.
+   */
+  authenticate (req: IncomingMessage): ApiKey | undefined {
+    const match = /^Bearer\s+(\S+)$/i.exec(req.headers.authorization || '')
+    const key = match
+      ? match[1]
+      : (req.url || '')
+          .split('?')[0]
+          .split('/')
+          .filter(segment => segment.length > 0)
+          .pop()
+    return key ? this.keys.get(key) : undefined
+  }
+
+  /**
+   * Checks whether given API key is allowed to call given method with given params.
+   * @returns Reason why the call is not authorized, if it's not.
+   */
+  authorize (apiKey: ApiKey, method: string, params?: any[]): string | undefined {
+    const scope: ApiKeyScope = method.startsWith('gateway_')
+      ? 'admin'
+      : SIGN_METHODS.includes(method)
+      ? 'sign'
+      : 'read'
+    if (!apiKey.scopes.includes(scope)) {
+      return `${scope} scope required by ${method}`
+    }
+    if (scope === 'sign' && apiKey.accounts) {
+      const signer = this.signerOf(method, params || [])
+      if (!signer) {
+        return `signer address required by ${method}`
+      } else if (!this.filterAccounts(apiKey, [signer]).length) {
+        return `signing from ${signer} not allowed`
+      }
+    }
+    return undefined
+  }
+
+  /**
+   * Filters out managed accounts not available to the given API key.
+   */
+  filterAccounts (apiKey: ApiKey, accounts: string[]): string[] {
+    if (!apiKey.scopes.includes('sign')) {
+      return []
+    }
+    const allowed = apiKey.accounts?.map(account => account.toLowerCase())
+    return allowed
+      ? accounts.filter(account => allowed.includes(account.toLowerCase()))
+      : accounts
+  }
+
+  /**
+   * Gets address of the account that is meant to sign, depending on the method.
+   */
+  signerOf (method: string, params: any[]): string | undefined {
+    switch (method) {
+      case 'eth_sendTransaction':
+      case 'eth_signTransaction':
+        return params[0]?.from
+      case 'personal_sign':
+        return params[1]
+      default:
+        // `eth_sign` and `eth_signTypedData*` expect the address first, though some clients send it last:
+        return params.find(
+          param => typeof param === 'string' && ethers.utils.isAddress(param)
+        )
+    }
+  }
+}
+
+export { ApiKey, ApiKeyRegistry }
@@ -0,0 +1,100 @@
+import { ethers, BigNumber } from 'ethers'
+import { existsSync, readFileSync, writeFileSync } from 'fs'
+
+interface BudgetRule {
+  maxFees?: string
+  maxValue?: string
+  window: number
+}
+
+interface Expense {
+  fees: string
+  timestamp: number
+  value: string
+}
+
+/**
+ * Limits total value and fees that every managed wallet can spend over rolling time windows
+ * (e.g. per hour, per day). Spent amounts are persisted to a local JSON file, so they survive restarts.
+ */
+class SpendingBudgets {
+  expenses: { [address: string]: Expense[] }
+  file: string
+  rules: BudgetRule[]
+
+  constructor (budgets: BudgetRule[], budgets_file: string) {
+    this.file = budgets_file
+    this.rules = budgets
+    this.expenses = existsSync(budgets_file)
+      ? JSON.parse(readFileSync(budgets_file, 'utf8'))
+      : {}
+  }
+
+  /**
+   * Checks whether given wallet can afford to spend given value and fees within all budget windows.
+   * @returns Reason why the budget would be exceeded, if it would.
+   */
+  check (
+    address: string,
+    value: BigNumber,
+    fees: BigNumber
+  ): string | undefined {
+    const expenses = this.expenses[address.toLowerCase()] || []
+    for (const rule of this.rules) {
+      const since = Date.now() - rule.window * 1000
+      const spent = expenses
+        .filter(expense => expense.timestamp > since)
+        .reduce(
+          (total, expense) => ({
+            fees: total.fees.add(expense.fees),
+            value: total.value.add(expense.value)
+          }),
+          { fees: BigNumber.from(0), value: BigNumber.from(0) }
+        )
+      if (
+        rule.maxValue !== undefined &&
+        spent.value.add(value).gt(rule.maxValue)
+      ) {
+        return `value budget exceeded (${spent.value} + ${value} > ${rule.maxValue} wei every ${rule.window} secs)`
+      }
+      if (
+        rule.maxFees !== undefined &&
+        spent.fees.add(fees).gt(rule.maxFees)
+      ) {
+        return `fees budget exceeded (${spent.fees} + ${fees} > ${rule.maxFees} wei every ${rule.window} secs)`
+      }
+    }
+    return undefined
+  }
+
+  /**
+   * Calculates value and worst-case fees of given transaction.
+   */
+  cost (
+    tx: ethers.providers.TransactionRequest
+  ): { fees: BigNumber; value: BigNumber } {
+    return {
+      fees: BigNumber.from(tx.gasLimit || 0).mul(
+        tx.maxFeePerGas || tx.gasPrice || 0
+      ),
+      value: BigNumber.from(tx.value || 0)
+    }
+  }
+
+  /**
+   * Records value and fees spent by given wallet, forgetting expenses older than the widest budget window.
+   */
+  record (address: string, value: BigNumber, fees: BigNumber) {
+    const now = Date.now()
+    const since = now - Math.max(...this.rules.map(rule => rule.window)) * 1000
+    this.expenses[address.toLowerCase()] = [
+      ...(this.expenses[address.toLowerCase()] || []).filter(
+        expense => expense.timestamp > since
+      ),
+      { fees: fees.toString(), timestamp: now, value: value.toString() }
+    ]
+    writeFileSync(this.file, JSON.stringify(this.expenses, null, 2))
+  }
+}
+
+export { BudgetRule, SpendingBudgets }
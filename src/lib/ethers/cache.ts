@@ -0,0 +1,180 @@
+import { BigNumber } from 'ethers'
+
+// Time to live of slow-changing results, in milliseconds
+const SHORT_TTL = 2000
+
+// Methods whose result never changes
+const CONSTANT_METHODS = ['eth_chainId', 'net_version']
+
+// Methods whose result changes slowly
+const SLOW_CHANGING_METHODS = [
+  'eth_blockNumber',
+  'eth_gasPrice',
+  'eth_maxPriorityFeePerGas'
+]
+
+// Methods querying blocks or transactions by hash, whose result tells the block number it refers to
+const BY_HASH_METHODS = [
+  'eth_getBlockByHash',
+  'eth_getTransactionByBlockHashAndIndex',
+  'eth_getTransactionByHash',
+  'eth_getTransactionReceipt'
+]
+
+// Methods querying state or blocks at a given block tag, and position of the block tag within params
+const BY_BLOCK_METHODS: { [K: string]: number } = {
+  eth_getBalance: 1,
+  eth_getBlockByNumber: 0,
+  eth_getBlockTransactionCountByNumber: 0,
+  eth_getCode: 1,
+  eth_getStorageAt: 2,
+  eth_getTransactionByBlockNumberAndIndex: 0,
+  eth_getTransactionCount: 1
+}
+
+interface CacheEntry {
+  block?: number
+  expiry: number
+  result: any
+}
+
+/**
+ * In-memory cache of upstream results known to be immutable, or slowly changing.
+ * Results referring to blocks are only cached if far enough behind the head block.
+ */
+class ResponseCache {
+  depth: number
+  entries: Map<string, CacheEntry>
+  hits: number
+  maxAge: number
+  maxEntries: number
+  misses: number
+
+  constructor (cache_size: number, cache_ttl: number, cache_depth: number) {
+    this.depth = cache_depth
+    this.entries = new Map<string, CacheEntry>()
+    this.hits = 0
+    this.maxAge = cache_ttl * 1000
+    this.maxEntries = cache_size
+    this.misses = 0
+  }
+
+  /**
+   * Gets cached result of the given call, if any.
+   */
+  get (method: string, params?: any[]): any {
+    const key = this.key(method, params)
+    const entry = this.entries.get(key)
+    if (entry) {
+      this.entries.delete(key)
+      if (entry.expiry > Date.now()) {
+        // refresh position of the entry, so least recently used entries get evicted first
+        this.entries.set(key, entry)
+        this.hits++
+        return entry.result
+      }
+    }
+    return undefined
+  }
+
+  /**
+   * Removes all entries referring to blocks from given block number onwards.
+   */
+  invalidate (fromBlock: number) {
+    this.entries.forEach((entry, key) => {
+      if (entry.block !== undefined && entry.block >= fromBlock) {
+        this.entries.delete(key)
+      }
+    })
+  }
+
+  key (method: string, params?: any[]): string {
+    return `${method}:${JSON.stringify(params || [])}`
+  }
+
+  /**
+   * Caches result of the given call, if safe to do so.
+   * @param head Last known block number.
+   * @returns `false` if the method is not cacheable at all.
+   */
+  set (method: string, params: any[] | undefined, result: any, head: number): boolean {
+    const policy = this.policy(method, params || [], result, head)
+    if (policy === undefined) {
+      return false
+    }
+    this.misses++
+    if (policy.ttl > 0) {
+      this.entries.set(this.key(method, params), {
+        block: policy.block,
+        expiry: Date.now() + policy.ttl,
+        result
+      })
+      while (this.entries.size > this.maxEntries) {
+        this.entries.delete(this.entries.keys().next().value as string)
+      }
+    }
+    return true
+  }
+
+  /**
+   * Decides whether, and for how long, the result of the given call can be cached.
+   * @returns Time to live (zero if the result cannot be cached this time), and block number the result refers to;
+   * or `undefined` if the method is never cacheable.
+   */
+  policy (
+    method: string,
+    params: any[],
+    result: any,
+    head: number
+  ): { block?: number; ttl: number } | undefined {
+    if (CONSTANT_METHODS.includes(method)) {
+      return { ttl: this.maxAge }
+    } else if (SLOW_CHANGING_METHODS.includes(method)) {
+      return { ttl: Math.min(SHORT_TTL, this.maxAge) }
+    } else if (BY_HASH_METHODS.includes(method)) {
+      const block = toBlockNumber(result?.number || result?.blockNumber)
+      return { block, ttl: this.isSettled(block, head) ? this.maxAge : 0 }
+    } else if (method in BY_BLOCK_METHODS) {
+      const block = toBlockNumber(params[BY_BLOCK_METHODS[method]])
+      return {
+        block,
+        ttl: result !== null && this.isSettled(block, head) ? this.maxAge : 0
+      }
+    } else if (method === 'eth_getLogs') {
+      const block = toBlockNumber(params[0]?.toBlock)
+      return {
+        block,
+        ttl:
+          toBlockNumber(params[0]?.fromBlock) !== undefined &&
+          this.isSettled(block, head)
+            ? this.maxAge
+            : 0
+      }
+    }
+    return undefined
+  }
+
+  /**
+   * Tells whether given block is far enough behind the head block as to consider it final.
+   */
+  isSettled (block: number | undefined, head: number): boolean {
+    return block !== undefined && head > 0 && block <= head - this.depth
+  }
+}
+
+/**
+ * Converts a hex-encoded block number into a number, unless it's a block tag like `latest` or `pending`,
+ * or it cannot be told as a safe integer (e.g. an oversized block number given by the client).
+ */
+function toBlockNumber (value: any): number | undefined {
+  if (typeof value === 'string' && value.startsWith('0x')) {
+    try {
+      return BigNumber.from(value).toNumber()
+    } catch (_ex) {
+      return undefined
+    }
+  }
+  return undefined
+}
+
+export { ResponseCache }
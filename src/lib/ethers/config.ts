@@ -0,0 +1,381 @@
+import { ethers } from 'ethers'
+
+import { alerts } from '../Alerts'
+import { Schema } from '../Config'
+import { readiness } from '../Health'
+import { ApiKey } from './apikeys'
+import { BudgetRule } from './budgets'
+import { MIN_BUMP_PERCENTAGE } from './tracker'
+import { TypedDataDomainRule } from './wrapper'
+
+interface EthersConfig {
+  adminKey: string
+  alertMinBalance: number
+  alwaysSynced: boolean
+  apiKeys: { [key: string]: ApiKey }
+  budgets: BudgetRule[]
+  budgetsFile: string
+  bumpBlocks: number
+  bumpPercentage: number
+  cacheDepth: number
+  cacheSize: number
+  cacheTtl: number
+  eip712Domains: TypedDataDomainRule[]
+  estimateGasLimit: boolean
+  estimateGasPrice: boolean
+  ethGasPriceFactor?: boolean
+  filterTimeout: number
+  forceEip155: boolean
+  forceEip1559: boolean
+  gasLimit: number
+  gasLimitFactor: number
+  gasPrice: number
+  gasPriceFactor: number
+  interleaveBlocks: number
+  mockFilters: boolean
+  network?: string
+  policyFile: string
+  port: number
+  privateKeys: string[]
+  providerUrl: string
+  readyMinBalance: number
+  remoteSigner: string
+  seedPhrase: string
+  seedPhraseWallets: number
+  websockets: boolean
+}
+
+interface TenConfig extends EthersConfig {
+  encryptionToken: string
+}
+
+interface InfuraConfig extends EthersConfig {
+  providerKey: string
+}
+
+const API_KEY_SCOPES = ['admin', 'read', 'sign']
+const DOMAIN_FIELDS = ['chainId', 'name', 'verifyingContract']
+
+/**
+ * Tells why given value is not an object holding only some of given fields, if it's not.
+ */
+function checkFields (
+  what: string,
+  value: any,
+  fields: string[]
+): string | undefined {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return `${what} is not an object`
+  }
+  const unknown = Object.keys(value).find(field => !fields.includes(field))
+  return unknown ? `unknown field '${unknown}' in ${what}` : undefined
+}
+
+/**
+ * Tells why given amount is not a non-negative integer number of wei, if it's not.
+ */
+function checkWei (what: string, value: any): string | undefined {
+  return value !== undefined &&
+    !(Number.isSafeInteger(value) && value >= 0) &&
+    !(typeof value === 'string' && /^[0-9]+$/.test(value))
+    ? `${what} is not an amount of wei, got ${JSON.stringify(value)}`
+    : undefined
+}
+
+function checkApiKeys (apiKeys: { [key: string]: any }): string | undefined {
+  for (const key of Object.keys(apiKeys)) {
+    const what = `API key '${key}'`
+    const reason = checkFields(what, apiKeys[key], ['accounts', 'scopes'])
+    if (reason) return reason
+    const { accounts, scopes } = apiKeys[key]
+    if (!Array.isArray(scopes) || scopes.length === 0) {
+      return `no scopes given for ${what}`
+    }
+    const unknown = scopes.find(scope => !API_KEY_SCOPES.includes(scope))
+    if (unknown !== undefined) {
+      return `unknown scope ${JSON.stringify(unknown)} for ${what}`
+    }
+    if (
+      accounts !== undefined &&
+      (!Array.isArray(accounts) ||
+        !accounts.every(account => ethers.utils.isAddress(account)))
+    ) {
+      return `accounts of ${what} are not an array of addresses`
+    }
+  }
+  return undefined
+}
+
+function checkBudgets (budgets: any[]): string | undefined {
+  for (let ix = 0; ix < budgets.length; ix++) {
+    const what = `budget #${ix + 1}`
+    const { maxFees, maxValue, window } = budgets[ix] || {}
+    const reason =
+      checkFields(what, budgets[ix], ['maxFees', 'maxValue', 'window']) ||
+      (!Number.isInteger(window) || window <= 0
+        ? `window of ${what} is not a positive number of seconds`
+        : undefined) ||
+      checkWei(`maxFees of ${what}`, maxFees) ||
+      checkWei(`maxValue of ${what}`, maxValue)
+    if (reason) return reason
+  }
+  return undefined
+}
+
+function checkDomains (domains: any[]): string | undefined {
+  for (let ix = 0; ix < domains.length; ix++) {
+    const what = `EIP-712 domain #${ix + 1}`
+    const { chainId, name, verifyingContract } = domains[ix] || {}
+    const reason =
+      checkFields(what, domains[ix], DOMAIN_FIELDS) ||
+      (chainId !== undefined && !Number.isInteger(chainId)
+        ? `chainId of ${what} is not an integer`
+        : undefined) ||
+      (name !== undefined && typeof name !== 'string'
+        ? `name of ${what} is not a string`
+        : undefined) ||
+      (verifyingContract !== undefined &&
+      !ethers.utils.isAddress(verifyingContract)
+        ? `verifyingContract of ${what} is not an address`
+        : undefined)
+    if (reason) return reason
+  }
+  return undefined
+}
+
+/**
+ * Settings taken by the ethers-based gateway, as to be set within a profile, or from the environment:
+ * - `providerUrl`: URL of the Web3 JSON-RPC provider. Multiple comma-separated URLs can be specified, so requests
+ *   get routed to the healthiest one.
+ * - `port`: listening port for the server.
+ * - `network`: network name to connect with.
+ * - `seedPhrase`: seed phrase to derive `seedPhraseWallets` wallets from, in BIP-39 mnemonics format
+ *   (`m/44'/60'/0'/0/*`).
+ * - `privateKeys`: array of private keys, as an alternative to (or along with) the seed phrase.
+ * - `remoteSigner`: URL of a remote signer (e.g. Web3Signer or Clef) holding the keys out of the gateway.
+ * - `interleaveBlocks`: number of blocks before EVM's latest state on which EVM calls will be perfomed.
+ * - `gasPrice` and `gasLimit`: defaults to be used before signing a transaction, if not specified by the caller.
+ * - `estimateGasPrice` and `estimateGasLimit`: let provider estimate gas before signing the transaction.
+ * - `gasPriceFactor` and `gasLimitFactor`: factors to be applied to estimated gas price and gas limit.
+ * - `ethGasPriceFactor`: whether `gasPriceFactor` also applies to `eth_gasPrice` calls (by default, if above 1.0).
+ * - `alwaysSynced`: force responses to `eth_syncing` as being always `false`.
+ * - `mockFilters`: emulate eth filters by polling the provider, instead of forwarding filter methods to it.
+ * - `forceEip155` and `forceEip1559`: force EIP-155 replay-protected transactions, or EIP-1559's type 2 ones.
+ * - `bumpBlocks` and `bumpPercentage`: number of blocks after which a not yet mined transaction gets replaced,
+ *   and percentage by which its fee gets raised (0 blocks = never; at least 10%, as required by nodes).
+ * - `filterTimeout`: seconds after which emulated filters not being polled get uninstalled.
+ * - `websockets`: also accept JSON-RPC requests and `eth_subscribe` calls through WebSocket connections.
+ * - `cacheSize`, `cacheTtl` and `cacheDepth`: max number of upstream results to be cached (0 = disabled), max
+ *   seconds to keep them, and number of blocks behind head after which block-related results are safe to cache.
+ * - `eip712Domains`: EIP-712 domains managed wallets are allowed to sign typed data for.
+ * - `policyFile`: JSON file restricting transactions signed by every wallet.
+ * - `budgets` and `budgetsFile`: rolling spending budgets applying to every wallet, and the file where spent
+ *   amounts are kept.
+ * - `apiKeys`: API keys mapped to their `scopes`, and optionally the `accounts` they're allowed to sign with.
+ * - `adminKey`: API key granting all scopes, including the admin one required by `gateway_*` methods, without
+ *   requiring authentication from other clients if no `apiKeys` are set.
+ * - `alertMinBalance` and `readyMinBalance`: balance thresholds, in native coins of the network, below which
+ *   low-balance alerts get sent, and the gateway is not reported as ready.
+ */
+const ethersSettings: Schema<EthersConfig> = {
+  adminKey: { env: 'ETHRPC_ADMIN_KEY', type: 'string', default: '' },
+  alertMinBalance: {
+    env: 'ETHRPC_ALERT_MIN_BALANCE',
+    type: 'number',
+    default: alerts.minBalance
+  },
+  alwaysSynced: {
+    env: 'ETHRPC_ETHERS_ALWAYS_SYNCED',
+    type: 'boolean',
+    default: false
+  },
+  apiKeys: {
+    check: checkApiKeys,
+    env: 'ETHRPC_API_KEYS',
+    type: 'object',
+    default: {}
+  },
+  budgets: {
+    check: checkBudgets,
+    env: 'ETHRPC_ETHERS_BUDGETS',
+    type: 'array',
+    default: []
+  },
+  budgetsFile: {
+    env: 'ETHRPC_ETHERS_BUDGETS_FILE',
+    type: 'string',
+    default: '.ethrpc-budgets.json'
+  },
+  bumpBlocks: { env: 'ETHRPC_ETHERS_BUMP_BLOCKS', type: 'integer', default: 0 },
+  bumpPercentage: {
+    check: value =>
+      value < MIN_BUMP_PERCENTAGE
+        ? `must be at least ${MIN_BUMP_PERCENTAGE}, as nodes refuse replacements raising fees by less`
+        : undefined,
+    env: 'ETHRPC_ETHERS_BUMP_PERCENTAGE',
+    type: 'integer',
+    default: 10
+  },
+  cacheDepth: {
+    env: 'ETHRPC_ETHERS_CACHE_DEPTH',
+    type: 'integer',
+    default: 12
+  },
+  cacheSize: { env: 'ETHRPC_ETHERS_CACHE_SIZE', type: 'integer', default: 0 },
+  cacheTtl: { env: 'ETHRPC_ETHERS_CACHE_TTL', type: 'integer', default: 3600 },
+  eip712Domains: {
+    check: checkDomains,
+    env: 'ETHRPC_ETHERS_EIP712_DOMAINS',
+    type: 'array',
+    default: []
+  },
+  estimateGasLimit: {
+    env: 'ETHRPC_ETHERS_ESTIMATE_GAS_LIMIT',
+    type: 'boolean',
+    default: false
+  },
+  estimateGasPrice: {
+    env: 'ETHRPC_ETHERS_ESTIMATE_GAS_PRICE',
+    type: 'boolean',
+    default: false
+  },
+  ethGasPriceFactor: {
+    env: 'ETHRPC_ETHERS_ETH_GAS_PRICE_FACTOR',
+    type: 'boolean'
+  },
+  filterTimeout: {
+    env: 'ETHRPC_ETHERS_FILTER_TIMEOUT',
+    type: 'integer',
+    default: 300
+  },
+  forceEip155: {
+    env: 'ETHRPC_ETHERS_FORCE_EIP_155',
+    type: 'boolean',
+    default: false
+  },
+  forceEip1559: {
+    env: 'ETHRPC_ETHERS_FORCE_EIP_1559',
+    type: 'boolean',
+    default: false
+  },
+  gasLimit: {
+    env: 'ETHRPC_ETHERS_GAS_LIMIT',
+    type: 'integer',
+    default: 6721975
+  },
+  gasLimitFactor: {
+    env: 'ETHRPC_ETHERS_GAS_LIMIT_FACTOR',
+    type: 'number',
+    default: 1.0
+  },
+  gasPrice: { env: 'ETHRPC_ETHERS_GAS_PRICE', type: 'integer', default: 20e9 },
+  gasPriceFactor: {
+    env: 'ETHRPC_ETHERS_GAS_PRICE_FACTOR',
+    type: 'number',
+    default: 1.0
+  },
+  interleaveBlocks: {
+    env: 'ETHRPC_CALL_INTERLEAVE_BLOCKS',
+    type: 'integer',
+    default: 0
+  },
+  mockFilters: {
+    env: 'ETHRPC_ETHERS_MOCK_FILTERS',
+    type: 'boolean',
+    default: false
+  },
+  network: { env: 'ETHRPC_NETWORK', type: 'string' },
+  policyFile: { env: 'ETHRPC_ETHERS_POLICY_FILE', type: 'string', default: '' },
+  port: { env: 'ETHRPC_PORT', type: 'integer', required: true },
+  privateKeys: { env: 'ETHRPC_PRIVATE_KEYS', type: 'array', default: [] },
+  providerUrl: { env: 'ETHRPC_PROVIDER_URL', type: 'string', required: true },
+  readyMinBalance: {
+    env: 'ETHRPC_READY_MIN_BALANCE',
+    type: 'number',
+    default: readiness.minBalance
+  },
+  remoteSigner: {
+    env: 'ETHRPC_ETHERS_REMOTE_SIGNER',
+    type: 'string',
+    default: ''
+  },
+  seedPhrase: { env: 'ETHRPC_SEED_PHRASE', type: 'string', default: '' },
+  seedPhraseWallets: {
+    env: 'ETHRPC_SEED_PHRASE_WALLETS',
+    type: 'integer',
+    default: 5
+  },
+  websockets: {
+    env: 'ETHRPC_ETHERS_WEBSOCKETS',
+    type: 'boolean',
+    default: false
+  }
+}
+
+/**
+ * Same settings as the ethers-based gateway, plus the `encryptionToken` to join the Ten Gateway with, if any.
+ */
+const tenSettings: Schema<TenConfig> = {
+  ...ethersSettings,
+  encryptionToken: {
+    env: 'TEN_GATEWAY_ENCRYPTION_TOKEN',
+    type: 'string',
+    default: ''
+  }
+}
+
+/**
+ * Same settings as the ethers-based gateway, plus the Infura project ID as `providerKey`. The network name is
+ * mandatory, while gas and cache settings are read from their own `ETHRPC_INFURA_*` environment variables.
+ */
+const infuraSettings: Schema<InfuraConfig> = {
+  ...ethersSettings,
+  cacheDepth: {
+    ...ethersSettings.cacheDepth,
+    env: 'ETHRPC_INFURA_CACHE_DEPTH'
+  },
+  cacheSize: { ...ethersSettings.cacheSize, env: 'ETHRPC_INFURA_CACHE_SIZE' },
+  cacheTtl: { ...ethersSettings.cacheTtl, env: 'ETHRPC_INFURA_CACHE_TTL' },
+  gasLimit: { ...ethersSettings.gasLimit, env: 'ETHRPC_INFURA_GAS_LIMIT' },
+  gasLimitFactor: {
+    ...ethersSettings.gasLimitFactor,
+    env: 'ETHRPC_INFURA_GAS_LIMIT_FACTOR'
+  },
+  gasPrice: { ...ethersSettings.gasPrice, env: 'ETHRPC_INFURA_GAS_PRICE' },
+  gasPriceFactor: {
+    ...ethersSettings.gasPriceFactor,
+    env: 'ETHRPC_INFURA_GAS_PRICE_FACTOR'
+  },
+  network: { ...ethersSettings.network, required: true },
+  providerKey: { env: 'ETHRPC_PROVIDER_KEY', type: 'string', required: true },
+  providerUrl: { ...ethersSettings.providerUrl, required: false }
+}
+
+// Environment variables of the settings applied again on reload, along with private keys read again from keystore
+// files. Other settings (e.g. keystore, rate limits, alerts and readiness settings) only apply on startup.
+const reloadableEnv = (<(keyof EthersConfig)[]>[
+  'estimateGasLimit',
+  'estimateGasPrice',
+  'ethGasPriceFactor',
+  'forceEip155',
+  'forceEip1559',
+  'gasLimit',
+  'gasLimitFactor',
+  'gasPrice',
+  'gasPriceFactor',
+  'interleaveBlocks',
+  'privateKeys',
+  'remoteSigner',
+  'seedPhrase',
+  'seedPhraseWallets'
+]).map(key => ethersSettings[key].env)
+
+export {
+  EthersConfig,
+  InfuraConfig,
+  TenConfig,
+  ethersSettings,
+  infuraSettings,
+  reloadableEnv,
+  tenSettings
+}
@@ -0,0 +1,268 @@
+import { ethers } from 'ethers'
+import { WalletWrapper } from './wrapper'
+
+type FilterKind = 'block' | 'logs' | 'pending'
+
+// Max number of blocks to be fetched from the upstream provider on a single poll
+const MAX_BLOCKS_PER_POLL = 128
+
+// Max range of blocks whose logs get fetched from the upstream provider on a single poll, the rest being left
+// for further polls
+const MAX_LOG_BLOCKS_PER_POLL = 1024
+
+interface Filter {
+  criteria?: any
+  cursor: number
+  kind: FilterKind
+  lastPoll: number
+  seen: Set<string>
+}
+
+/**
+ * Emulates eth filters on the gateway side, by polling the upstream provider on every `eth_getFilterChanges` call,
+ * so clients can rely on filters even if the upstream provider doesn't support them.
+ */
+class FilterRegistry {
+  filters: { [id: string]: Filter }
+  timeout: number
+  wrapper: WalletWrapper
+
+  constructor (wrapper: WalletWrapper, filter_timeout: number) {
+    this.filters = {}
+    this.timeout = filter_timeout * 1000
+    this.wrapper = wrapper
+  }
+
+  /**
+   * Installs new filter of the given kind.
+   * @param kind Kind of filter.
+   * @param criteria Log filter criteria, as passed to `eth_newFilter`.
+   * @returns Filter id.
+   */
+  async create (kind: FilterKind, criteria?: any): Promise<string> {
+    this.expire()
+    if (kind === 'logs') this.validate(criteria)
+    const head = await this.wrapper.provider.getBlockNumber()
+    let cursor = head
+    if (kind === 'logs' && criteria?.fromBlock) {
+      cursor = Math.min(this.resolveBlockTag(criteria.fromBlock, head) - 1, head)
+    }
+    // Transactions already pending by now are not to be reported as changes:
+    const seen = new Set<string>(
+      kind === 'pending' ? await this.pendingHashes() : []
+    )
+    const id = ethers.utils.hexValue(ethers.utils.randomBytes(16))
+    this.filters[id] = {
+      criteria,
+      cursor,
+      kind,
+      lastPoll: Date.now(),
+      seen
+    }
+    return id
+  }
+
+  /**
+   * Gets changes of the given filter since last poll.
+   * @param id Filter id.
+   * @returns Block hashes, transaction hashes or logs, depending on the filter kind.
+   */
+  async changes (id: string): Promise<any[]> {
+    const filter = this.get(id)
+    const provider = this.wrapper.provider
+    switch (filter.kind) {
+      case 'block': {
+        const blocks = await this.newBlocks(filter)
+        return blocks.map(block => block.hash)
+      }
+      case 'logs': {
+        const head = await provider.getBlockNumber()
+        const toBlock = Math.min(
+          filter.criteria?.toBlock
+            ? this.resolveBlockTag(filter.criteria.toBlock, head)
+            : head,
+          head,
+          filter.cursor + MAX_LOG_BLOCKS_PER_POLL
+        )
+        if (toBlock <= filter.cursor) {
+          return []
+        }
+        const logs = await provider.send('eth_getLogs', [
+          {
+            ...filter.criteria,
+            fromBlock: ethers.utils.hexValue(filter.cursor + 1),
+            toBlock: ethers.utils.hexValue(toBlock)
+          }
+        ])
+        filter.cursor = toBlock
+        return logs
+      }
+      case 'pending': {
+        const hashes = await this.pendingHashes()
+        const changes = hashes.filter(hash => !filter.seen.has(hash))
+        filter.seen = new Set<string>(hashes)
+        return changes
+      }
+    }
+  }
+
+  /**
+   * Removes filters that haven't been polled within the filter timeout.
+   */
+  expire () {
+    const now = Date.now()
+    Object.keys(this.filters).forEach(id => {
+      if (now - this.filters[id].lastPoll > this.timeout) {
+        delete this.filters[id]
+      }
+    })
+  }
+
+  /**
+   * Gets the filter of the given id, refreshing its expiry time.
+   */
+  get (id: string): Filter {
+    this.expire()
+    const filter = this.filters[id?.toLowerCase()]
+    if (!filter) {
+      const reason = 'filter not found'
+      throw {
+        reason,
+        body: {
+          error: {
+            code: -32000,
+            message: reason
+          }
+        }
+      }
+    }
+    filter.lastPoll = Date.now()
+    return filter
+  }
+
+  /**
+   * Gets all logs matching the criteria of the given log filter.
+   */
+  async logs (id: string): Promise<any[]> {
+    const filter = this.get(id)
+    if (filter.kind !== 'logs') {
+      const reason = `Not a log filter: ${id}`
+      throw {
+        reason,
+        body: {
+          error: {
+            code: -32602,
+            message: reason
+          }
+        }
+      }
+    }
+    return this.wrapper.provider.send('eth_getLogs', [filter.criteria || {}])
+  }
+
+  /**
+   * Fetches headers of all blocks mined since the filter's cursor, and moves the cursor forward.
+   */
+  async newBlocks (filter: { cursor: number }): Promise<any[]> {
+    const provider = this.wrapper.provider
+    const head = await provider.getBlockNumber()
+    const blocks: any[] = []
+    const from = Math.max(filter.cursor + 1, head - MAX_BLOCKS_PER_POLL + 1)
+    for (let number = from; number <= head; number++) {
+      const block = await provider.send('eth_getBlockByNumber', [
+        ethers.utils.hexValue(number),
+        false
+      ])
+      if (block) blocks.push(block)
+    }
+    // on rollbacks, cursor moves backwards:
+    filter.cursor = head
+    return blocks
+  }
+
+  /**
+   * Gets hashes of all transactions within the upstream provider's pending block, if supported.
+   */
+  async pendingHashes (): Promise<string[]> {
+    try {
+      const block = await this.wrapper.provider.send('eth_getBlockByNumber', [
+        'pending',
+        false
+      ])
+      return block?.transactions || []
+    } catch (_ex) {
+      // pending block not supported by upstream provider
+      return []
+    }
+  }
+
+  /**
+   * Translates block tag into a block number, given current head.
+   */
+  resolveBlockTag (tag: string, head: number): number {
+    switch (tag) {
+      case 'earliest':
+        return 0
+      case 'latest':
+      case 'pending':
+      case 'safe':
+      case 'finalized':
+        return head
+      default:
+        return ethers.BigNumber.from(tag).toNumber()
+    }
+  }
+
+  /**
+   * Checks given log filter criteria, as to reject the ones that could not be polled for changes.
+   */
+  validate (criteria: any) {
+    let reason: string | undefined
+    if (
+      criteria !== undefined &&
+      (typeof criteria !== 'object' || criteria === null)
+    ) {
+      reason = 'Invalid filter criteria'
+    } else if (criteria?.blockHash !== undefined) {
+      // changes could only be polled within one single block:
+      reason = 'Filters by blockHash are not supported: use eth_getLogs instead'
+    } else {
+      reason = ['fromBlock', 'toBlock']
+        .filter(field => criteria?.[field] !== undefined)
+        .filter(field => {
+          try {
+            return this.resolveBlockTag(criteria[field], 0) < 0
+          } catch (_ex) {
+            return true
+          }
+        })
+        .map(field => `Invalid ${field}: ${JSON.stringify(criteria[field])}`)[0]
+    }
+    if (reason) {
+      throw {
+        reason,
+        body: {
+          error: {
+            code: -32602,
+            message: reason
+          }
+        }
+      }
+    }
+  }
+
+  /**
+   * Uninstalls given filter.
+   * @returns `true` if the filter was actually installed.
+   */
+  uninstall (id: string): boolean {
+    this.expire()
+    if (id && this.filters[id.toLowerCase()]) {
+      delete this.filters[id.toLowerCase()]
+      return true
+    }
+    return false
+  }
+}
+
+export { FilterRegistry }
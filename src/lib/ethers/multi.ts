@@ -0,0 +1,159 @@
+import express, { Express } from 'express'
+import cors from 'cors'
+import { createServer, IncomingMessage, Server } from 'http'
+import { Duplex } from 'stream'
+import { WebSocket, WebSocketServer } from 'ws'
+
+import { serveHealth } from '../Health'
+import { bodySizeGuard, limits } from '../Limiter'
+import { logger, traceKeyValue } from '../Logger'
+import { metrics } from '../Metrics'
+import { WalletMiddlewareServer } from './server'
+
+/**
+ * Serves multiple networks from one single process, every one of them being handled by its own wallet middleware
+ * server (i.e. its own upstream provider, gas settings and wallets), mounted under a path named after the network
+ * (e.g. `/ethereum/sepolia` for `ethereum:sepolia`). The listener, logging and metrics are shared by all networks,
+ * metrics being labelled with the network they refer to.
+ */
+class MultiNetworkServer {
+  expressServer: Express
+  httpServer: Server
+  ready: { [network: string]: boolean }
+  servers: { [network: string]: WalletMiddlewareServer }
+
+  constructor () {
+    this.expressServer = express()
+    this.httpServer = createServer(this.expressServer)
+    this.ready = {}
+    this.servers = {}
+
+    this.expressServer.use(cors())
+    this.expressServer.use(express.json({ limit: limits.maxBodySize }))
+
+    this.expressServer.get('/health', serveHealth)
+    this.expressServer.get('/metrics', (req, res) => metrics.serve(req, res))
+
+    this.httpServer.on(
+      'upgrade',
+      (req: IncomingMessage, socket: Duplex, head: Buffer) =>
+        this.processUpgrade(req, socket, head)
+    )
+  }
+
+  /**
+   * Gets the path under which given network gets mounted, e.g. `/polygon/amoy` for `polygon:amoy`.
+   */
+  static mountPath (network: string): string {
+    return `/${network.split(':').join('/')}`
+  }
+
+  /**
+   * Mounts given server under the path named after given network. Requests to the network are rejected
+   * until the server gets started.
+   */
+  mount (network: string, server: WalletMiddlewareServer) {
+    if (this.servers[network]) {
+      throw new Error(`Network ${network} is already mounted`)
+    }
+    server.network = network
+    server.wrapper.labels = { network }
+    if (server.websockets) {
+      server.wsServer = new WebSocketServer({
+        maxPayload: limits.maxBodySize,
+        noServer: true
+      })
+    }
+    this.servers[network] = server
+
+    const router = server.createRouter()
+    this.expressServer.use(
+      MultiNetworkServer.mountPath(network),
+      (
+        req: express.Request,
+        res: express.Response,
+        next: express.NextFunction
+      ) => {
+        if (this.ready[network]) {
+          router(req, res, next)
+        } else {
+          res.status(503).json({
+            jsonrpc: '2.0',
+            id: Array.isArray(req.body) ? null : req.body?.id ?? null,
+            error: { code: -32002, message: `Network ${network} is not ready` }
+          })
+        }
+      }
+    )
+    return this
+  }
+
+  /**
+   * Hands WebSocket connections over to the server mounted under the requested path, if any, and if it's both
+   * started and accepting WebSocket connections. As with HTTP requests, the rest of the path (e.g. an API key)
+   * is left for the mounted server to deal with.
+   */
+  processUpgrade (req: IncomingMessage, socket: Duplex, head: Buffer) {
+    const path = (req.url || '/').split('?')[0]
+    // The longest matching mount path wins, e.g. `/ethereum/sepolia` over `/ethereum`:
+    const network = Object.keys(this.servers)
+      .filter(network => {
+        const mount = MultiNetworkServer.mountPath(network)
+        return path === mount || path.startsWith(`${mount}/`)
+      })
+      .sort((a, b) => b.length - a.length)[0]
+    const server = network ? this.servers[network] : undefined
+    if (!network || !server?.wsServer || !this.ready[network]) {
+      socket.destroy()
+      return
+    }
+    // Strip the mount path off the URL, the same way Express does for mounted routers:
+    const rest = (req.url || '/').substring(
+      MultiNetworkServer.mountPath(network).length
+    )
+    req.url = rest.startsWith('/') ? rest : `/${rest}`
+    server.wsServer.handleUpgrade(req, socket, head, (ws: WebSocket) =>
+      server.processConnection(ws, req)
+    )
+  }
+
+  /**
+   * Tells the Express server to start listening, and starts all mounted servers at once. Networks whose server
+   * cannot be started are traced as such, without preventing other networks from being served.
+   */
+  async listen (port: number, hostname?: string) {
+    this.expressServer.use(bodySizeGuard)
+
+    traceKeyValue('Listening', [
+      ['TCP/host', hostname || '0.0.0.0'],
+      ['TCP/port', port],
+      ...Object.keys(this.servers).map(network => [
+        'Mount path',
+        `${MultiNetworkServer.mountPath(network)} (${network}, WebSockets ${
+          this.servers[network].websockets ? 'enabled' : 'disabled'
+        })`
+      ]),
+      ['Log level', logger.level.toUpperCase()]
+    ])
+
+    this.httpServer.listen(port, hostname || '0.0.0.0')
+
+    await Promise.all(
+      Object.keys(this.servers).map(async network => {
+        try {
+          await this.servers[network].start()
+          this.ready[network] = true
+        } catch (ex: any) {
+          logger.error({
+            message: `Cannot start network ${network}: ${
+              ex?.reason || ex?.message || ex
+            }`
+          })
+        }
+      })
+    )
+    return this
+  }
+}
+
+export { MultiNetworkServer }
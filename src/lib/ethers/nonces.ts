@@ -0,0 +1,67 @@
+import { ManagedSigner } from './signers'
+
+/**
+ * Hands out consecutive nonces to transactions signed by one single managed wallet,
+ * making sure that no two transactions from the same address get signed at the same time.
+ */
+class NonceManager {
+  nextNonce?: number
+  queue: Promise<any>
+  wallet: ManagedSigner
+
+  constructor (wallet: ManagedSigner) {
+    this.queue = Promise.resolve()
+    this.wallet = wallet
+  }
+
+  /**
+   * Marks given nonce as used, so next transaction gets the following one.
+   * @param nonce Nonce of a transaction that was just signed and broadcast.
+   */
+  commit (nonce: number) {
+    if (this.nextNonce === undefined || nonce >= this.nextNonce) {
+      this.nextNonce = nonce + 1
+    }
+  }
+
+  /**
+   * Compares the wallet's mined and pending transaction counts on the upstream provider.
+   * @returns Both counts. Nonces in between belong to transactions that were broadcast but not yet mined.
+   */
+  async detectGaps (): Promise<{ latest: number; pending: number }> {
+    const latest = await this.wallet.getTransactionCount('latest')
+    const pending = await this.resync()
+    return { latest, pending }
+  }
+
+  /**
+   * Gets the nonce to be used by the next transaction, fetching it from the upstream provider if not yet known.
+   */
+  async next (): Promise<number> {
+    if (this.nextNonce === undefined) {
+      return this.resync()
+    }
+    return this.nextNonce
+  }
+
+  /**
+   * Forgets locally tracked nonce, and reloads it from the upstream `pending` transaction count.
+   */
+  async resync (): Promise<number> {
+    this.nextNonce = undefined
+    const pending = await this.wallet.getTransactionCount('pending')
+    this.nextNonce = pending
+    return pending
+  }
+
+  /**
+   * Runs given task only after all tasks previously scheduled on this wallet have settled.
+   */
+  serialize<T> (task: () => Promise<T>): Promise<T> {
+    const result = this.queue.then(task)
+    this.queue = result.catch(() => undefined)
+    return result
+  }
+}
+
+export { NonceManager }
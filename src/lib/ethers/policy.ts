@@ -0,0 +1,87 @@
+import { ethers, BigNumber } from 'ethers'
+import { readFileSync } from 'fs'
+
+// Wildcard matching any signer, destination or selector
+const ANY = '*'
+
+interface SignerPolicy {
+  allowDeploy?: boolean
+  destinations?: { [address: string]: string[] }
+  maxValue?: string
+}
+
+/**
+ * Restricts the transactions that every managed wallet is allowed to sign, as loaded from a JSON policy file
+ * mapping signer addresses (or `*`, for any other signer) to:
+ * - `destinations`: allowed destination addresses (or `*`), each one mapped to allowed 4-byte method selectors
+ *   (or `["*"]`). Plain value transfers are allowed to any listed destination.
+ * - `maxValue`: max value in wei, if any.
+ * - `allowDeploy`: whether contract deployments are permitted.
+ */
+class TransactionPolicy {
+  signers: { [address: string]: SignerPolicy }
+
+  constructor (policy_file: string) {
+    const policy = JSON.parse(readFileSync(policy_file, 'utf8'))
+    this.signers = {}
+    Object.keys(policy).forEach(signer => {
+      const destinations = policy[signer].destinations
+      this.signers[signer.toLowerCase()] = {
+        ...policy[signer],
+        destinations: destinations
+          ? Object.keys(destinations).reduce(
+              (lowered: { [address: string]: string[] }, address: string) => ({
+                ...lowered,
+                [address.toLowerCase()]: destinations[address].map(
+                  (selector: string) => selector.toLowerCase()
+                )
+              }),
+              {}
+            )
+          : undefined
+      }
+    })
+  }
+
+  /**
+   * Checks whether given transaction can be signed by given address.
+   * @returns Reason why the transaction violates the policy, if it does.
+   */
+  check (
+    signer: string,
+    tx: ethers.providers.TransactionRequest
+  ): string | undefined {
+    const policy = this.signers[signer.toLowerCase()] || this.signers[ANY]
+    if (!policy) {
+      return `no policy for signer ${signer}`
+    }
+    if (
+      policy.maxValue !== undefined &&
+      BigNumber.from(tx.value || 0).gt(policy.maxValue)
+    ) {
+      return `value exceeds max value allowed to ${signer} (${BigNumber.from(
+        tx.value
+      )} > ${policy.maxValue})`
+    }
+    if (!tx.to) {
+      return policy.allowDeploy
+        ? undefined
+        : `contract deployments not allowed to ${signer}`
+    }
+    const to = tx.to.toLowerCase()
+    const selectors = policy.destinations?.[to] || policy.destinations?.[ANY]
+    if (!selectors) {
+      return `destination ${tx.to} not allowed to ${signer}`
+    }
+    const data = tx.data ? ethers.utils.hexlify(tx.data) : '0x'
+    if (data.length > 2) {
+      const selector = data.substring(0, 10).toLowerCase()
+      if (!selectors.includes(ANY) && !selectors.includes(selector)) {
+        return `method ${selector} on ${tx.to} not allowed to ${signer}`
+      }
+    }
+    return undefined
+  }
+}
+
+export { TransactionPolicy }
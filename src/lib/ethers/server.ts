@@ -1,9 +1,59 @@
 import express, { Express } from 'express'
 import cors from 'cors'
 import { ethers, Wallet } from 'ethers'
+import { createServer, IncomingMessage, Server } from 'http'
+import { RawData, WebSocket, WebSocketServer } from 'ws'
 
-import { logger, traceKeyValue } from '../Logger'
-import { WalletWrapper } from './wrapper'
+import { BalanceWatcher } from '../Alerts'
+import { READ_METHODS, RequestCoalescer } from '../Coalescer'
+import {
+  checkBalances,
+  checkHeadAge,
+  serveHealth,
+  serveReadiness
+} from '../Health'
+import {
+  bodySizeGuard,
+  limitExceeded,
+  limits,
+  RateLimiter
+} from '../Limiter'
+import { logger, SocketParams, traceKeyValue } from '../Logger'
+import {
+  lastKnownBlock,
+  methodLabel,
+  metrics,
+  requestsRouted,
+  requestsTotal,
+  walletBalance,
+  walletNonce
+} from '../Metrics'
+import { ApiKey, ApiKeyRegistry } from './apikeys'
+import { BudgetRule } from './budgets'
+import { ManagedSigner, RemoteSigner } from './signers'
+import { SubscriptionManager } from './subscriptions'
+import { FailoverJsonRpcProvider } from './upstreams'
+import { TypedDataDomainRule, WalletWrapper } from './wrapper'
+
+/**
+ * Wallets and gas settings that can be swapped in while running, without dropping connections.
+ */
+interface ReloadableSettings {
+  estimate_gas_limit: boolean
+  estimate_gas_price: boolean
+  eth_gas_price_factor: boolean
+  force_eip_155: boolean
+  force_eip_1559: boolean
+  gas_limit: number
+  gas_limit_factor: number
+  gas_price: number
+  gas_price_factor: number
+  interleave_blocks: number
+  private_keys: string[]
+  remote_signer: string
+  seed_phrase: string
+  seed_phrase_wallets: number
+}
 
 /**
  * Leverages `JsonRpcEngine` to intercept account-related calls, and pass any other calls down to a destination
@@ -11,12 +61,23 @@ import { WalletWrapper } from './wrapper'
  */
 class WalletMiddlewareServer {
   alwaysSynced: boolean
+  apiKeys?: ApiKeyRegistry
+  coalescer: RequestCoalescer
   expressServer: Express
+  httpServer: Server
+  limiter: RateLimiter
   mockFilters: boolean
+  network?: string
   privateKeys?: string[]
+  readyMinBalance: number
+  remoteSigner: string
   seedPhrase?: string
   seedPhraseWallets: number
+  subscriptions: SubscriptionManager
+  watcher: BalanceWatcher
+  websockets: boolean
   wrapper: WalletWrapper
+  wsServer?: WebSocketServer
 
   constructor (
     seed_phrase: string,
@@ -34,12 +95,36 @@ class WalletMiddlewareServer {
     force_eip_155: boolean,
     force_eip_1559: boolean,
     eth_gas_price_factor: boolean,
+    bump_blocks: number,
+    bump_percentage: number,
+    filter_timeout: number,
+    websockets: boolean,
+    cache_size: number,
+    cache_ttl: number,
+    cache_depth: number,
+    eip712_domains: TypedDataDomainRule[],
+    policy_file: string,
+    budgets: BudgetRule[],
+    budgets_file: string,
+    api_keys: { [key: string]: ApiKey },
+    admin_key: string,
+    remote_signer: string,
+    alert_min_balance: number,
+    ready_min_balance: number,
     provider?: ethers.providers.JsonRpcProvider
   ) {
     this.alwaysSynced = always_synced
+    if (Object.keys(api_keys).length > 0 || admin_key) {
+      this.apiKeys = new ApiKeyRegistry(api_keys, admin_key)
+    }
+    this.coalescer = new RequestCoalescer(READ_METHODS)
     this.expressServer = express()
+    this.httpServer = createServer(this.expressServer)
+    this.limiter = new RateLimiter()
     this.mockFilters = mock_filters
     this.privateKeys = private_keys
+    this.readyMinBalance = ready_min_balance
+    this.remoteSigner = remote_signer
     this.seedPhrase = seed_phrase
     this.seedPhraseWallets = seed_phrase_wallets
     this.wrapper = new WalletWrapper(
@@ -52,11 +137,42 @@ class WalletMiddlewareServer {
       gas_limit_factor,
       force_eip_155,
       force_eip_1559,
-      eth_gas_price_factor
+      eth_gas_price_factor,
+      bump_blocks,
+      bump_percentage,
+      filter_timeout,
+      cache_size,
+      cache_ttl,
+      cache_depth,
+      eip712_domains,
+      policy_file,
+      budgets,
+      budgets_file
     )
     if (provider) {
       this.wrapper.provider = provider
     }
+    this.subscriptions = new SubscriptionManager(this.wrapper)
+    this.watcher = new BalanceWatcher(
+      () => this.getBalances(),
+      alert_min_balance
+    )
+    metrics.collect(async () => {
+      const labels = this.wrapper.labels
+      lastKnownBlock.set(labels, this.wrapper.lastKnownBlock)
+      for (const wallet of this.wrapper.wallets) {
+        const address = wallet.address
+        walletBalance.set(
+          { ...labels, address },
+          parseFloat(ethers.utils.formatEther(await wallet.getBalance()))
+        )
+        walletNonce.set(
+          { ...labels, address },
+          await wallet.getTransactionCount('latest')
+        )
+      }
+    })
+    this.websockets = websockets
     // trace configuration
     let lines = [
       [
@@ -77,166 +193,678 @@ class WalletMiddlewareServer {
     if (interleave_blocks > 0) {
       lines = [...lines, ['Interleave blocks', interleave_blocks.toString()]]
     }
+    if (mock_filters) {
+      lines = [...lines, ['Filters timeout', `${filter_timeout} secs`]]
+    }
+    if (bump_blocks > 0) {
+      lines = [
+        ...lines,
+        ['Gas price bump', `+${bump_percentage}% every ${bump_blocks} blocks`]
+      ]
+    }
+    if (cache_size > 0) {
+      lines = [
+        ...lines,
+        [
+          'Response cache',
+          `${cache_size} entries, ${cache_ttl} secs, ${cache_depth} blocks deep`
+        ]
+      ]
+    }
+    if (eip712_domains.length > 0) {
+      lines = [
+        ...lines,
+        [
+          'EIP-712 domains',
+          eip712_domains.map(rule => JSON.stringify(rule)).join(', ')
+        ]
+      ]
+    }
+    if (policy_file) {
+      lines = [...lines, ['Policy file', policy_file]]
+    }
+    budgets.forEach(rule => {
+      lines = [
+        ...lines,
+        [
+          'Spending budget',
+          `${rule.maxValue || '(unlimited)'} wei value, ${rule.maxFees ||
+            '(unlimited)'} wei fees, every ${rule.window} secs`
+        ]
+      ]
+    })
+    if (this.apiKeys?.required) {
+      lines = [
+        ...lines,
+        ['API keys', `${Object.keys(api_keys).length} (authentication required)`]
+      ]
+    }
+    if (!this.apiKeys?.hasAdmin()) {
+      // Admin methods are only available to API keys with the admin scope:
+      lines = [
+        ...lines,
+        [
+          'Admin methods',
+          'disabled (set ETHRPC_ADMIN_KEY, or an API key with the admin scope)'
+        ]
+      ]
+    }
+    if (remote_signer) {
+      lines = [...lines, ['Remote signer', remote_signer]]
+    }
     traceKeyValue('Config', lines)
     return this
   }
 
+  /**
+   * Gets balance of every managed wallet, in native coins.
+   */
+  async getBalances (): Promise<{ [address: string]: number }> {
+    const balances: { [address: string]: number } = {}
+    for (const wallet of this.wrapper.wallets) {
+      balances[wallet.address] = parseFloat(
+        ethers.utils.formatEther(await wallet.getBalance())
+      )
+    }
+    return balances
+  }
+
   /**
    * Initializes the Express server, configures CORS, and passes requests back and forth between the Express server and
    * the `JsonRpcEngine`.
    */
   initialize () {
     this.expressServer.use(cors())
-    this.expressServer.use(express.json())
+    this.expressServer.use(express.json({ limit: limits.maxBodySize }))
+
+    this.expressServer.get('/health', serveHealth)
+    this.expressServer.get('/metrics', (req, res) => metrics.serve(req, res))
+    this.expressServer.use(this.createRouter())
+
+    this.expressServer.use(bodySizeGuard)
+
+    if (this.websockets) {
+      this.wsServer = new WebSocketServer({
+        maxPayload: limits.maxBodySize,
+        server: this.httpServer
+      })
+      this.wsServer.on('connection', (ws: WebSocket, req: IncomingMessage) =>
+        this.processConnection(ws, req)
+      )
+    }
+    return this
+  }
+
+  /**
+   * Creates the Express router serving the readiness check and JSON-RPC requests, as to be mounted either
+   * at the root of this server, or under some path of an Express server shared with other networks.
+   * Requests are expected to be already parsed as JSON.
+   */
+  createRouter (): express.Router {
+    const router = express.Router()
+    router.get(
+      '/ready',
+      serveReadiness({
+        upstream: async () => ({
+          ok: true,
+          block: parseInt(
+            await this.wrapper.provider.send('eth_blockNumber', [])
+          )
+        }),
+        chainId: async () => {
+          const expected = (await this.wrapper.provider.ready).chainId
+          const chainId = parseInt(
+            await this.wrapper.provider.send('eth_chainId', [])
+          )
+          return { ok: chainId === expected, chainId, expected }
+        },
+        head: async () => {
+          const block = await this.wrapper.provider.getBlock('latest')
+          return checkHeadAge(block.number, block.timestamp)
+        },
+        wallets: async () =>
+          checkBalances(await this.getBalances(), this.readyMinBalance)
+      })
+    )
 
-    this.expressServer.post(
+    router.post(
       '/{*any}',
       async (req: express.Request, res: express.Response) => {
         const body = req.body
-        const socket = {
-          clientAddr: req.connection.remoteAddress,
-          clientPort: req.connection.remotePort,
+        const socket: SocketParams = {
+          clientAddr: req.connection.remoteAddress || 'unknownAddr',
+          clientPort: req.connection.remotePort || 0,
           clientId: body.id,
+          network: this.network,
           serverId: this.wrapper.provider._nextId
         }
 
-        const requests = Array.isArray(body) ? [ ...body ] : [ body ]
-        Promise.all(requests.map(async request => {
-          logger.log({
-            level: 'info',
+        const apiKey = this.apiKeys?.authenticate(req)
+        if (this.apiKeys?.required && !apiKey) {
+          logger.warn({
             socket,
-            message: `>> ${request.method}`
+            message: '<= Unauthorized: missing or invalid API key'
+          })
+          res.status(401).json({
+            jsonrpc: '2.0',
+            id: Array.isArray(body) ? null : body?.id,
+            error: { code: -32001, message: 'Unauthorized' }
           })
+          return
+        }
 
-          let handlers: { [K: string]: any } = {
-            eth_accounts: this.wrapper.getAccounts,
-            eth_call: this.wrapper.processEthCall,
-            eth_chainId: this.wrapper.getNetwork,
-            eth_estimateGas: this.wrapper.processEthEstimateGas,
-            eth_gasPrice: this.wrapper.processEthGasPrice,
-            eth_getBlockByNumber: this.wrapper.getBlockByNumber,
-            eth_sendTransaction: this.wrapper.processTransaction,
-            eth_sign: this.wrapper.processEthSignMessage,
-          }
-          if (this.alwaysSynced) {
-            handlers = {
-              ...handlers,
-              eth_syncing: () => false
+        const requests = Array.isArray(body) ? [ ...body ] : [ body ]
+        if (this.limiter.exceedsBatchSize(requests.length)) {
+          const reason = `Batch too long (max ${limits.maxBatchSize} requests)`
+          logger.warn({ socket, message: `<= ${reason}` })
+          res
+            .status(200)
+            .json({ jsonrpc: '2.0', id: null, ...limitExceeded(reason).body })
+          return
+        }
+        Promise.all(
+          requests.map(request =>
+            this.processRequest(socket, request, undefined, apiKey)
+          )
+        )
+          .then((responses: any[]) => {
+            if (responses.length === 1) {
+              res.status(200).json(...responses)
+            } else {
+              res.status(200).json(responses)
             }
-          }
-          if (this.mockFilters) {
-            handlers = {
-              ...handlers,
-              eth_getFilterChanges: this.wrapper.mockEthFilterChanges,
-              eth_newBlockFilter: () => '0x1'
+          })
+      },
+    )
+    return router
+  }
+
+  /**
+   * Passes JSON-RPC messages back and forth through a WebSocket connection, and handles
+   * the connection's own subscriptions.
+   */
+  processConnection (ws: WebSocket, req: IncomingMessage) {
+    const apiKey = this.apiKeys?.authenticate(req)
+    if (this.apiKeys?.required && !apiKey) {
+      ws.close(1008, 'Unauthorized')
+      return
+    }
+    const subscriptions: string[] = []
+    const handlers = {
+      eth_subscribe: async (socket: SocketParams, kind: any, criteria?: any) => {
+        const id: string = await this.subscriptions.subscribe(
+          socket,
+          kind,
+          criteria,
+          result => {
+            if (ws.readyState === WebSocket.OPEN) {
+              ws.send(
+                JSON.stringify({
+                  jsonrpc: '2.0',
+                  method: 'eth_subscription',
+                  params: { subscription: id, result }
+                })
+              )
             }
           }
+        )
+        subscriptions.push(id)
+        return id
+      },
+      eth_unsubscribe: async (_socket: SocketParams, id: string) => {
+        const index = subscriptions.indexOf(id?.toLowerCase())
+        if (index < 0) return false
+        subscriptions.splice(index, 1)
+        return this.subscriptions.unsubscribe(id)
+      }
+    }
 
-          const header = {
-            jsonrpc: request.jsonrpc,
-            id: request.id
-          }
+    ws.on('message', async (data: RawData) => {
+      let body: any
+      try {
+        body = JSON.parse(data.toString())
+      } catch (_e) {
+        ws.send(
+          JSON.stringify({
+            jsonrpc: '2.0',
+            id: null,
+            error: { code: -32700, message: 'Parse error' }
+          })
+        )
+        return
+      }
+      const socket: SocketParams = {
+        clientAddr: req.socket.remoteAddress || 'unknownAddr',
+        clientPort: req.socket.remotePort || 0,
+        clientId: body.id,
+        network: this.network,
+        serverId: this.wrapper.provider._nextId
+      }
+      const requests = Array.isArray(body) ? [ ...body ] : [ body ]
+      if (this.limiter.exceedsBatchSize(requests.length)) {
+        const reason = `Batch too long (max ${limits.maxBatchSize} requests)`
+        ws.send(
+          JSON.stringify({
+            jsonrpc: '2.0',
+            id: null,
+            ...limitExceeded(reason).body
+          })
+        )
+        return
+      }
+      const responses = await Promise.all(
+        requests.map(request =>
+          this.processRequest(socket, request, handlers, apiKey)
+        )
+      )
+      if (ws.readyState === WebSocket.OPEN) {
+        ws.send(
+          JSON.stringify(responses.length === 1 ? responses[0] : responses)
+        )
+      }
+    })
 
-          let response: {
-            id: number
-            jsonrpc: string
-            result?: string
-            error?: string
-          }
-          let result
-          try {
-            if (request.method in handlers) {
-              result = await handlers[request.method].bind(this.wrapper)(
-                socket,
-                ...(request.params || [])
-              )
-            } else {
-              result = await this.wrapper.provider.send(
-                request.method,
-                request.params
-              )
-            }
-            response = { ...header, result }
-          } catch (exception: any) {
-            if (!exception.code) {
-              // if no error code is specified,
-              //   assume the provider is actually reporting an execution error:
-              exception = {
-                reason: exception.toString(),
-                body: {
-                  error: {
-                    code: -32015,
-                    message: exception.data
-                      ? 'Execution error'
-                      : JSON.stringify(exception),
-                    data: exception.data
-                  }
-                }
-              }
+    ws.on('close', () => {
+      subscriptions.forEach(id => this.subscriptions.unsubscribe(id))
+    })
+  }
+
+  /**
+   * Processes one single JSON-RPC request, either by intercepting it or by passing it down to the provider.
+   * @param socket Socket parms where the RPC call is coming from.
+   * @param request JSON-RPC request.
+   * @param extraHandlers Additional method handlers, depending on the transport.
+   * @param apiKey API key of the client, if authenticated.
+   * @returns JSON-RPC response.
+   */
+  async processRequest (
+    socket: SocketParams,
+    request: any,
+    extraHandlers?: { [K: string]: any },
+    apiKey?: ApiKey
+  ): Promise<any> {
+    logger.log({
+      level: 'info',
+      socket,
+      message: `>> ${request.method}`
+    })
+
+    let handlers: { [K: string]: any } = {
+      eth_accounts: this.wrapper.getAccounts,
+      eth_call: this.wrapper.processEthCall,
+      eth_chainId: this.wrapper.getNetwork,
+      eth_estimateGas: this.wrapper.processEthEstimateGas,
+      eth_gasPrice: this.wrapper.processEthGasPrice,
+      eth_getBlockByNumber: this.wrapper.getBlockByNumber,
+      eth_sendRawTransaction: this.wrapper.processEthSendRawTransaction,
+      eth_sendTransaction: this.wrapper.processTransaction,
+      eth_sign: this.wrapper.processEthSignMessage,
+      eth_signTransaction: this.wrapper.processEthSignTransaction,
+      eth_signTypedData: this.wrapper.processEthSignTypedData,
+      eth_signTypedData_v3: this.wrapper.processEthSignTypedData,
+      eth_signTypedData_v4: this.wrapper.processEthSignTypedData,
+      gateway_config: this.wrapper.processGatewayConfig,
+      gateway_setLogLevel: this.wrapper.processGatewaySetLogLevel,
+      gateway_upstream: this.wrapper.processGatewayUpstream,
+      gateway_version: this.wrapper.processGatewayVersion,
+      gateway_wallets: this.wrapper.processGatewayWallets,
+      personal_sign: this.wrapper.processPersonalSign
+    }
+    if (this.alwaysSynced) {
+      handlers = {
+        ...handlers,
+        eth_syncing: () => false
+      }
+    }
+    if (extraHandlers) {
+      handlers = {
+        ...handlers,
+        ...extraHandlers
+      }
+    }
+    if (this.mockFilters) {
+      handlers = {
+        ...handlers,
+        eth_getFilterChanges: this.wrapper.processEthGetFilterChanges,
+        eth_getFilterLogs: this.wrapper.processEthGetFilterLogs,
+        eth_newBlockFilter: this.wrapper.processEthNewBlockFilter,
+        eth_newFilter: this.wrapper.processEthNewFilter,
+        eth_newPendingTransactionFilter: this.wrapper
+          .processEthNewPendingTransactionFilter,
+        eth_uninstallFilter: this.wrapper.processEthUninstallFilter
+      }
+    }
+
+    const header = {
+      jsonrpc: request.jsonrpc,
+      id: request.id
+    }
+
+    let response: {
+      id: number
+      jsonrpc: string
+      result?: string
+      error?: string
+    }
+    let result
+    try {
+      const client = apiKey ? `key:${apiKey.id}` : socket.clientAddr
+      if (!this.limiter.take(client, request.method)) {
+        throw limitExceeded('Rate limit exceeded')
+      }
+      if (request.method.startsWith('gateway_') && !apiKey) {
+        // Admin methods are only available to API keys with the admin scope:
+        const reason = 'Unauthorized: admin API key required'
+        throw {
+          reason,
+          body: {
+            error: {
+              code: -32001,
+              message: reason
             }
-            const message =
-              exception.reason ||
-              (exception.error && exception.error.reason) ||
-              exception ||
-              'null exception'
-            let body =
-              exception.body ||
-              (exception.error && exception.error.body
-                ? exception.error.body
-                : {
-                  error: {
-                    code: exception.code || -32099,
-                    message: `"${message}"`,
-                    data: exception.data
-                  }
-                })
-            body = typeof body !== 'string' ? JSON.stringify(body) : body
-            try {
-              response = { ...header, error: JSON.parse(body).error }
-            } catch (e) {
-              logger.log({
-                level: 'error',
-                socket,
-                message: `<= Invalid JSON: ${body}`
-              })
-              response = {
-                ...header,
-                error: `{ "code": -32700, "message": "Invalid JSON response" }`
+          }
+        }
+      }
+      if (this.apiKeys && apiKey) {
+        const violation = this.apiKeys.authorize(
+          apiKey,
+          request.method,
+          request.params
+        )
+        if (violation) {
+          const reason = `Unauthorized: ${violation}`
+          throw {
+            reason,
+            body: {
+              error: {
+                code: -32001,
+                message: reason
               }
             }
           }
-          if (response.error) {
-            logger.log({
-              level: 'warn',
+        }
+      }
+      result = await this.coalescer.run(
+        socket,
+        request.method,
+        request.params,
+        async () => {
+          if (request.method in handlers) {
+            return handlers[request.method].bind(this.wrapper)(
               socket,
-              message: `<= Error: ${JSON.stringify(response.error)}`
-            })
+              ...(request.params || [])
+            )
           } else {
-            logger.log({
-              level: 'http',
-              socket,
-              message: `<< ${JSON.stringify(result)}`
-            })
+            return this.wrapper.send(socket, request.method, request.params)
           }
-          return response
-        })).then((responses: any[]) => {
-          if (responses.length === 1) {
-            res.status(200).json(...responses)
-          } else {
-            res.status(200).json(responses)
+        }
+      )
+      if (this.apiKeys && apiKey && request.method === 'eth_accounts') {
+        // Only accounts the API key is allowed to sign with are disclosed:
+        result = this.apiKeys.filterAccounts(apiKey, result)
+      }
+      response = { ...header, result }
+    } catch (exception: any) {
+      if (!exception.code && !exception.body) {
+        // if no error code nor JSON-RPC error body is specified,
+        //   assume the provider is actually reporting an execution error:
+        exception = {
+          reason: exception.toString(),
+          body: {
+            error: {
+              code: -32015,
+              message: exception.data
+                ? 'Execution error'
+                : JSON.stringify(exception),
+              data: exception.data
+            }
           }
+        }
+      }
+      const message =
+        exception.reason ||
+        (exception.error && exception.error.reason) ||
+        exception ||
+        'null exception'
+      let body =
+        exception.body ||
+        (exception.error && exception.error.body
+          ? exception.error.body
+          : {
+            error: {
+              code: exception.code || -32099,
+              message: `"${message}"`,
+              data: exception.data
+            }
+          })
+      body = typeof body !== 'string' ? JSON.stringify(body) : body
+      try {
+        response = { ...header, error: JSON.parse(body).error }
+      } catch (e) {
+        logger.log({
+          level: 'error',
+          socket,
+          message: `<= Invalid JSON: ${body}`
         })
-      },
+        response = {
+          ...header,
+          error: `{ "code": -32700, "message": "Invalid JSON response" }`
+        }
+      }
+    }
+    requestsRouted.inc({
+      ...this.wrapper.labels,
+      route: request.method in handlers ? 'intercepted' : 'forwarded'
+    })
+    requestsTotal.inc({
+      ...this.wrapper.labels,
+      method: methodLabel(request.method, request.method in handlers),
+      outcome: response.error ? 'error' : 'success'
+    })
+    if (response.error) {
+      logger.log({
+        level: 'warn',
+        socket,
+        message: `<= Error: ${JSON.stringify(response.error)}`
+      })
+    } else {
+      logger.log({
+        level: 'http',
+        socket,
+        message: `<< ${JSON.stringify(result)}`
+      })
+    }
+    return response
+  }
+
+  /**
+   * Creates wallets derived from given seed phrase and private keys, plus all accounts held by the remote signer,
+   * if any, connected to the rpc provider.
+   */
+  async createWallets (
+    seed_phrase: string,
+    seed_phrase_wallets: number,
+    private_keys: string[],
+    remote_signer: string
+  ): Promise<ManagedSigner[]> {
+    const wallets: ManagedSigner[] = []
+    if (seed_phrase) {
+      for (let ix = 0; ix < seed_phrase_wallets || 0; ix++) {
+        wallets.push(
+          Wallet.fromMnemonic(seed_phrase, `m/44'/60'/0'/0/${ix}`).connect(
+            this.wrapper.provider
+          )
+        )
+      }
+    }
+    if (private_keys && Array.isArray(private_keys)) {
+      private_keys.forEach(key =>
+        wallets.push(new Wallet(key, this.wrapper.provider))
+      )
+    }
+    wallets.push(...(await this.getRemoteSigners(remote_signer)))
+    return wallets
+  }
+
+  /**
+   * Gets all accounts held by the given remote signer, if any, connected to the rpc provider.
+   */
+  async getRemoteSigners (remote_signer: string): Promise<RemoteSigner[]> {
+    if (!remote_signer) {
+      return []
+    }
+    const accounts = await RemoteSigner.accounts(remote_signer)
+    return accounts.map(
+      address => new RemoteSigner(remote_signer, address, this.wrapper.provider)
     )
-    return this
   }
 
-  async traceWallet (index: number, wallet: Wallet) {
-    traceKeyValue(`Signer #${index}`, [
+  /**
+   * Swaps in new wallets and gas settings all at once, without dropping connections nor transactions
+   * being tracked, and traces what changed. Settings are left untouched if new wallets cannot be loaded.
+   */
+  async reload (settings: ReloadableSettings) {
+    let wallets: ManagedSigner[]
+    const before = this.wrapper.wallets.map(wallet => wallet.address)
+    try {
+      wallets = await this.createWallets(
+        settings.seed_phrase,
+        settings.seed_phrase_wallets,
+        settings.private_keys,
+        settings.remote_signer
+      )
+      if (wallets.length === 0) {
+        throw new Error('no wallets')
+      }
+      // Set up wallets not being managed yet, before swapping them in:
+      for (let ix = 0; ix < wallets.length; ix++) {
+        if (!before.includes(wallets[ix].address)) {
+          await this.setupWallet(ix, wallets[ix])
+        }
+      }
+    } catch (ex: any) {
+      logger.warn({ message: `Cannot reload: ${ex?.reason || ex?.message || ex}` })
+      return
+    }
+    const after = wallets.map(wallet => wallet.address)
+
+    let lines: any[][] = []
+    const updates: Partial<WalletWrapper> = {
+      defaultGasPrice: settings.gas_price,
+      defaultGasLimit: settings.gas_limit,
+      estimateGasPrice: settings.estimate_gas_price,
+      estimateGasLimit: settings.estimate_gas_limit,
+      gasPriceFactor: settings.gas_price_factor,
+      gasLimitFactor: settings.gas_limit_factor,
+      ethGasPriceFactor: settings.eth_gas_price_factor,
+      forceEIP155: settings.force_eip_155,
+      forceType2Txs: settings.force_eip_1559,
+      interleaveBlocks: settings.interleave_blocks
+    }
+    const labels: { [field in keyof WalletWrapper]?: string } = {
+      defaultGasPrice: 'Gas price',
+      defaultGasLimit: 'Gas limit',
+      estimateGasPrice: 'Estimate gas price',
+      estimateGasLimit: 'Estimate gas limit',
+      gasPriceFactor: 'Gas price factor',
+      gasLimitFactor: 'Gas limit factor',
+      ethGasPriceFactor: 'eth_gasPrice factor',
+      forceEIP155: 'Force EIP-155',
+      forceType2Txs: 'Force EIP-1559',
+      interleaveBlocks: 'Interleave blocks'
+    }
+    ;(Object.keys(updates) as (keyof WalletWrapper)[]).forEach(field => {
+      if (this.wrapper[field] !== updates[field]) {
+        lines = [
+          ...lines,
+          [labels[field], `${this.wrapper[field]} => ${updates[field]}`]
+        ]
+      }
+    })
+    Object.assign(this.wrapper, updates)
+    before
+      .filter(address => !after.includes(address))
+      .forEach(address => (lines = [...lines, ['Wallet removed', address]]))
+    after
+      .filter(address => !before.includes(address))
+      .forEach(address => (lines = [...lines, ['Wallet added', address]]))
+    if (settings.remote_signer !== this.remoteSigner) {
+      lines = [...lines, ['Remote signer', '(redacted)']]
+    }
+    this.remoteSigner = settings.remote_signer
+    this.wrapper.wallets = wallets
+    traceKeyValue(
+      this.network ? `Reloaded ${this.network}` : 'Reloaded',
+      lines.length > 0 ? lines : [['', '(no changes)']]
+    )
+  }
+
+  /**
+   * Prepares given wallet before it gets managed by the gateway.
+   */
+  async setupWallet (index: number, wallet: ManagedSigner) {
+    await this.traceWallet(index, wallet)
+  }
+
+  async traceWallet (index: number, wallet: ManagedSigner) {
+    const { latest, pending } = await this.wrapper
+      .getNonceManager(wallet)
+      .detectGaps()
+    let lines = [
       ['Address', await wallet.getAddress()],
       ['Balance', await wallet.getBalance()],
-      ['Nonce  ', await wallet.getTransactionCount()]
-    ])
+      ['Nonce  ', latest]
+    ]
+    if (pending > latest) {
+      // Some previously broadcast transactions are still waiting to be mined:
+      lines = [
+        ...lines,
+        ['Pending', pending],
+        ['', `Warning: nonces ${latest} to ${pending - 1} are not yet mined`]
+      ]
+    }
+    traceKeyValue(
+      this.network
+        ? `Signer #${index} on ${this.network}`
+        : `Signer #${index}`,
+      lines
+    )
+  }
+
+  /**
+   * Waits for the RPC provider to be ready, and connects all managed wallets to it.
+   */
+  async start () {
+    await this.wrapper.provider.ready
+    let network: ethers.providers.Network =
+      await this.wrapper.provider.detectNetwork()
+    if (network) {
+      const urls =
+        this.wrapper.provider instanceof FailoverJsonRpcProvider
+          ? this.wrapper.provider.upstreams.map(upstream => upstream.url)
+          : [this.wrapper.provider.connection.url]
+      traceKeyValue(this.network ? `Network ${this.network}` : 'Network', [
+        ...urls.map(url => ['Provider URL', url]),
+        ['Network id  ', network.chainId],
+        ['Network name', network.name],
+        ['ENS address ', network.ensAddress]
+      ])
+    }
+
+    // Connect seed phrase wallets, private key wallets and remote signer accounts to the rpc provider:
+    const wallets = await this.createWallets(
+      this.seedPhrase || '',
+      this.seedPhraseWallets,
+      this.privateKeys || [],
+      this.remoteSigner
+    )
+    delete this.seedPhrase
+    delete this.privateKeys
+    for (let ix = 0; ix < wallets.length; ix++) {
+      this.wrapper.wallets.push(wallets[ix])
+      await this.setupWallet(ix, wallets[ix])
+    }
+    this.watcher.start(`${network.name} (${network.chainId})`)
   }
 
   /**
@@ -244,45 +872,7 @@ class WalletMiddlewareServer {
    */
   async listen (port: number, hostname?: string) {
     try {
-      // initialize the RPC provider
-      await this.wrapper.provider.ready
-      let network: ethers.providers.Network =
-        await this.wrapper.provider.detectNetwork()
-      if (network) {
-        traceKeyValue('Network', [
-          ['Provider URL', this.wrapper.provider.connection.url],
-          ['Network id  ', network.chainId],
-          ['Network name', network.name],
-          ['ENS address ', network.ensAddress]
-        ])
-      }
-
-      // Connect seed phrase wallet addresses to the rpc provider:
-      let wix = 0
-      if (this.seedPhrase) {
-        for (let ix = 0; ix < this.seedPhraseWallets || 0; ix++) {
-          const wallet = Wallet.fromMnemonic(
-            this.seedPhrase,
-            `m/44'/60'/0'/0/${ix}`
-          ).connect(this.wrapper.provider)
-          this.wrapper.wallets.push(wallet)
-          await this.traceWallet(wix++, wallet)
-        }
-        delete this.seedPhrase
-      }
-      // Connect seed phrase wallet addresses to the rpc provider:
-      if (
-        this.privateKeys &&
-        Array.isArray(this.privateKeys) &&
-        this.privateKeys.length > 0
-      ) {
-        for (let ix = 0; ix < this.privateKeys?.length; ix++) {
-          const wallet = new Wallet(this.privateKeys[ix], this.wrapper.provider)
-          this.wrapper.wallets.push(wallet)
-          await this.traceWallet(wix++, wallet)
-        }
-        delete this.privateKeys
-      }
+      await this.start()
     } catch (e) {
       console.error('Cannot get the HTTP server running !!!')
       console.error(e)
@@ -292,12 +882,13 @@ class WalletMiddlewareServer {
     traceKeyValue('Listening', [
       ['TCP/host', hostname || '0.0.0.0'],
       ['TCP/port', port],
+      ['WebSockets', this.websockets ? 'enabled' : 'disabled'],
       ['Log level', logger.level.toUpperCase()]
     ])
 
-    this.expressServer.listen(port, hostname || '0.0.0.0')
+    this.httpServer.listen(port, hostname || '0.0.0.0')
     return this
   }
 }
 
-export { WalletMiddlewareServer }
+export { ReloadableSettings, WalletMiddlewareServer }
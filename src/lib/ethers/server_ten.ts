@@ -1,14 +1,20 @@
 import axios from 'axios'
-import { ethers, Wallet } from 'ethers'
+import { ethers } from 'ethers'
 
-import { logger, traceKeyValue } from '../Logger'
-import { WalletMiddlewareServer } from './server'
+import { traceKeyValue } from '../Logger'
+import { ApiKey } from './apikeys'
+import { BudgetRule } from './budgets'
+import { ReloadableSettings, WalletMiddlewareServer } from './server'
+import { ManagedSigner } from './signers'
+import { TypedDataDomainRule } from './wrapper'
 
 /**
  * Leverages `JsonRpcEngine` to intercept account-related calls, and pass any other calls down to a destination
  * provider, e.g. Infura.
  */
 class TenWalletMiddlewareServer extends WalletMiddlewareServer {
+  // EIP-712 message to be signed by every wallet for authentication, as provided by the Ten Gateway
+  authMessage: any
   encryptionToken: string
   providerEndpoint: string
 
@@ -29,7 +35,23 @@ class TenWalletMiddlewareServer extends WalletMiddlewareServer {
     gas_limit_factor: number,
     force_eip_155: boolean,
     force_eip_1559: boolean,
-    eth_gas_price_factor: boolean
+    eth_gas_price_factor: boolean,
+    bump_blocks: number,
+    bump_percentage: number,
+    filter_timeout: number,
+    websockets: boolean,
+    cache_size: number,
+    cache_ttl: number,
+    cache_depth: number,
+    eip712_domains: TypedDataDomainRule[],
+    policy_file: string,
+    budgets: BudgetRule[],
+    budgets_file: string,
+    api_keys: { [key: string]: ApiKey },
+    admin_key: string,
+    remote_signer: string,
+    alert_min_balance: number,
+    ready_min_balance: number
   ) {
     super(
       seed_phrase,
@@ -46,7 +68,23 @@ class TenWalletMiddlewareServer extends WalletMiddlewareServer {
       gas_limit_factor,
       force_eip_155,
       force_eip_1559,
-      eth_gas_price_factor
+      eth_gas_price_factor,
+      bump_blocks,
+      bump_percentage,
+      filter_timeout,
+      websockets,
+      cache_size,
+      cache_ttl,
+      cache_depth,
+      eip712_domains,
+      policy_file,
+      budgets,
+      budgets_file,
+      api_keys,
+      admin_key,
+      remote_signer,
+      alert_min_balance,
+      ready_min_balance
     )
     this.encryptionToken = encryption_token
     this.providerEndpoint = provider_endpoint
@@ -54,75 +92,73 @@ class TenWalletMiddlewareServer extends WalletMiddlewareServer {
   }
 
   /**
-   * Tells the Express server to start listening.
+   * Authenticates given wallet's address into the Ten Gateway, before it gets managed.
    */
-  async listen (port: number, hostname?: string) {
-    try {
-      // Join the Ten Gateway by asking for an encryption token
-      if (!this.encryptionToken || this.encryptionToken === '') {
-        const response = await axios.get(`${this.providerEndpoint}/join/`)
-        this.encryptionToken = response.data
-      }
-      // initialize the RPC provider
-      this.wrapper.provider = await new ethers.providers.StaticJsonRpcProvider(
-        `${this.providerEndpoint}/?token=${this.encryptionToken}`
+  async setupWallet (index: number, wallet: ManagedSigner) {
+    const message = this.authMessage
+    const address = await wallet.getAddress()
+    const signature = await wallet._signTypedData(message.domain, message.types, message.message)
+    const response = await axios.post(
+      `${this.providerEndpoint}/authenticate/?token=${this.encryptionToken}`,
+      `{ "address": "${address}", "signature": "${signature}" }`
+    )
+    if (response.data !== 'success') {
+      console.error(
+        `Unable to authenticate address ${address} into endpoint ${this.providerEndpoint}:`
       )
-      await this.wrapper.provider.ready
-      let { data } = await axios.post(`${this.providerEndpoint}/getmessage/`, {
-        encryptionToken: this.encryptionToken, 
-        formats: ['EIP712']
-      }, {
-        headers: { "Content-Type": "application/json" },
-      })
-      const { message } = data
-      traceKeyValue('Provider', [
-        ['Endpoint', this.providerEndpoint],
-        ['Encr. token', this.encryptionToken],
-        ['Network id', this.wrapper.provider.network.chainId]
-      ])
-      // For each private key, connect addtional wallet to the provider and check whether it's already registered:
-      if (
-        this.privateKeys &&
-        Array.isArray(this.privateKeys) &&
-        this.privateKeys.length > 0
-      ) {
-        for (let ix = 0; ix < this.privateKeys?.length; ix++) {
-          const wallet = new Wallet(this.privateKeys[ix], this.wrapper.provider)
-          this.wrapper.wallets.push(wallet)
-          const address = await wallet.getAddress()
-          const signature = await wallet._signTypedData(message.domain, message.types, message.message)
-          const response = await axios.post(
-            `${this.providerEndpoint}/authenticate/?token=${this.encryptionToken}`,
-            `{ "address": "${address}", "signature": "${signature}" }`
-          )
-          if (response.data !== 'success') {
-            console.error(
-              `Unable to authenticate address ${address} into endpoint ${this.providerEndpoint}:`
-            )
-            console.error('Error:', response.data)
-          }
-          traceKeyValue(`Signer #${ix}`, [
-            ['Address', address],
-            ['Balance', await wallet.getBalance()],
-            ['Nonce  ', await wallet.getTransactionCount()]
-          ])
-        }
-        delete this.privateKeys
-      }
-    } catch (e) {
-      console.error('Cannot get the HTTP server running !!!')
-      console.error(e)
-      process.exit(-1)
+      console.error('Error:', response.data)
     }
+    await this.traceWallet(index, wallet)
+  }
 
-    traceKeyValue('Listener', [
-      ['TCP/host', hostname || '0.0.0.0'],
-      ['TCP/port', port],
-      ['Log level', logger.level.toUpperCase()]
-    ])
+  /**
+   * Swaps in new wallets and gas settings, ignoring the seed phrase as wallets are only taken from private keys
+   * and the remote signer, if any.
+   */
+  async reload (settings: ReloadableSettings) {
+    await super.reload({ ...settings, seed_phrase: '' })
+  }
 
-    this.expressServer.listen(port, hostname || '0.0.0.0')
-    return this
+  /**
+   * Joins the Ten Gateway, and connects all managed wallets to it.
+   */
+  async start () {
+    // Join the Ten Gateway by asking for an encryption token
+    if (!this.encryptionToken || this.encryptionToken === '') {
+      const response = await axios.get(`${this.providerEndpoint}/join/`)
+      this.encryptionToken = response.data
+    }
+    // initialize the RPC provider
+    this.wrapper.provider = await new ethers.providers.StaticJsonRpcProvider(
+      `${this.providerEndpoint}/?token=${this.encryptionToken}`
+    )
+    await this.wrapper.provider.ready
+    let { data } = await axios.post(`${this.providerEndpoint}/getmessage/`, {
+      encryptionToken: this.encryptionToken, 
+      formats: ['EIP712']
+    }, {
+      headers: { "Content-Type": "application/json" },
+    })
+    this.authMessage = data.message
+    traceKeyValue('Provider', [
+      ['Endpoint', this.providerEndpoint],
+      ['Encr. token', this.encryptionToken],
+      ['Network id', this.wrapper.provider.network.chainId]
+    ])
+    // For each private key and remote signer account, connect additional wallet to the provider and
+    // check whether it's already registered:
+    const wallets = await this.createWallets(
+      '',
+      0,
+      this.privateKeys || [],
+      this.remoteSigner
+    )
+    delete this.privateKeys
+    for (let ix = 0; ix < wallets.length; ix++) {
+      this.wrapper.wallets.push(wallets[ix])
+      await this.setupWallet(ix, wallets[ix])
+    }
+    this.watcher.start(`ten (${this.wrapper.provider.network.chainId})`)
   }
 }
 
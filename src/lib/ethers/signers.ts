@@ -0,0 +1,133 @@
+import { ethers, TypedDataDomain, TypedDataField, Wallet } from 'ethers'
+
+// Max time to wait for the remote signer to respond, in milliseconds
+const REMOTE_SIGNER_TIMEOUT = 30000
+
+let nextId = 1
+
+/**
+ * Sends one JSON-RPC request to the remote signer at the given URL.
+ */
+async function call (url: string, method: string, params: any[]): Promise<any> {
+  let response: any
+  try {
+    response = await ethers.utils.fetchJson(
+      { url, timeout: REMOTE_SIGNER_TIMEOUT },
+      JSON.stringify({ jsonrpc: '2.0', id: nextId++, method, params })
+    )
+  } catch (ex: any) {
+    // e.g. the remote signer being down, or timing out:
+    throw signerError(method, ex?.reason || ex?.message || `${ex}`)
+  }
+  if (response.error) {
+    throw signerError(method, response.error.message, response.error.code)
+  }
+  return response.result
+}
+
+/**
+ * Builds the JSON-RPC error to be returned to the client when the remote signer fails on given method.
+ */
+function signerError (method: string, message: string, code?: number) {
+  const reason = `Remote signer failed on ${method}: ${message}`
+  return {
+    reason,
+    body: {
+      error: {
+        code: code || -32099,
+        message: reason
+      }
+    }
+  }
+}
+
+/**
+ * Signer whose private key is held by an external signing service (e.g. Web3Signer or Clef), reached through
+ * its HTTP JSON-RPC interface. Only signing is delegated: transactions are expected to be fully populated
+ * (i.e. gas and nonce) by the time they get signed.
+ */
+class RemoteSigner extends ethers.Signer {
+  readonly address!: string
+  readonly provider?: ethers.providers.Provider
+  readonly url!: string
+
+  constructor (
+    url: string,
+    address: string,
+    provider?: ethers.providers.Provider
+  ) {
+    super()
+    const checksummed = ethers.utils.getAddress(address)
+    ethers.utils.defineReadOnly(this, 'address', checksummed)
+    ethers.utils.defineReadOnly(this, 'provider', provider)
+    ethers.utils.defineReadOnly(this, 'url', url)
+  }
+
+  /**
+   * Gets addresses of all accounts held by the remote signer at the given URL.
+   */
+  static async accounts (url: string): Promise<string[]> {
+    return call(url, 'eth_accounts', [])
+  }
+
+  connect (provider: ethers.providers.Provider): RemoteSigner {
+    return new RemoteSigner(this.url, this.address, provider)
+  }
+
+  async getAddress (): Promise<string> {
+    return this.address
+  }
+
+  async signMessage (message: ethers.Bytes | string): Promise<string> {
+    const data =
+      typeof message === 'string' ? ethers.utils.toUtf8Bytes(message) : message
+    return call(this.url, 'eth_sign', [
+      this.address,
+      ethers.utils.hexlify(data)
+    ])
+  }
+
+  async signTransaction (
+    transaction: ethers.utils.Deferrable<ethers.providers.TransactionRequest>
+  ): Promise<string> {
+    const tx = await ethers.utils.resolveProperties(transaction)
+    const chainId =
+      tx.chainId || (await this.provider?.getNetwork())?.chainId || undefined
+    const result = await call(this.url, 'eth_signTransaction', [
+      {
+        ...ethers.providers.JsonRpcProvider.hexlifyTransaction(
+          { ...tx, from: this.address },
+          { from: true }
+        ),
+        ...(chainId ? { chainId: ethers.utils.hexValue(chainId) } : {})
+      }
+    ])
+    // Web3Signer replies with the raw signed transaction, while Clef wraps it along with the decoded transaction:
+    const signedTx: string = typeof result === 'string' ? result : result?.raw
+    const signer = ethers.utils.parseTransaction(signedTx).from
+    if (signer?.toLowerCase() !== this.address.toLowerCase()) {
+      throw new Error(
+        `Remote signer returned a transaction signed by ${signer} instead of ${this.address}`
+      )
+    }
+    return signedTx
+  }
+
+  async _signTypedData (
+    domain: TypedDataDomain,
+    types: Record<string, Array<TypedDataField>>,
+    value: Record<string, any>
+  ): Promise<string> {
+    return call(this.url, 'eth_signTypedData', [
+      this.address,
+      ethers.utils._TypedDataEncoder.getPayload(domain, types, value)
+    ])
+  }
+}
+
+/**
+ * Any of the signer backends managed wallets can be held by: either in-process wallets, or remote signers.
+ */
+type ManagedSigner = Wallet | RemoteSigner
+
+export { ManagedSigner, RemoteSigner }
@@ -0,0 +1,164 @@
+import { ethers } from 'ethers'
+import { logger, SocketParams } from '../Logger'
+import { WalletWrapper } from './wrapper'
+
+type SubscriptionKind = 'logs' | 'newHeads' | 'newPendingTransactions'
+
+interface Subscription {
+  criteria?: any
+  kind: SubscriptionKind
+  notify: (result: any) => void
+  socket: SocketParams
+}
+
+/**
+ * Delivers `eth_subscribe` notifications out of the gateway's own polling of the upstream provider,
+ * so subscriptions work even if the upstream provider is HTTP-only.
+ */
+class SubscriptionManager {
+  cursor: number
+  polling: boolean
+  seen: Set<string>
+  subscriptions: { [id: string]: Subscription }
+  timer?: NodeJS.Timeout
+  wrapper: WalletWrapper
+
+  constructor (wrapper: WalletWrapper) {
+    this.cursor = 0
+    this.polling = false
+    this.seen = new Set<string>()
+    this.subscriptions = {}
+    this.wrapper = wrapper
+  }
+
+  /**
+   * Fetches new blocks, logs and pending transactions from the upstream provider, and notifies them to subscribers.
+   */
+  async poll () {
+    const subscriptions = Object.keys(this.subscriptions).map(id => ({
+      id,
+      ...this.subscriptions[id]
+    }))
+    const provider = this.wrapper.provider
+    const fromBlock = this.cursor + 1
+    const blocks = await this.wrapper.filters.newBlocks(this)
+    // The pending block is fetched only once per poll, as new pending transactions get notified to all
+    // subscribers alike:
+    const watchingPending = subscriptions.some(
+      ({ kind }) => kind === 'newPendingTransactions'
+    )
+    let hashes: string[] = []
+    if (watchingPending) {
+      try {
+        const pending = await provider.send('eth_getBlockByNumber', [
+          'pending',
+          false
+        ])
+        hashes = pending?.transactions || []
+      } catch (_ex) {
+        // pending block not supported by upstream provider
+        hashes = []
+      }
+    }
+    const fresh = hashes.filter(hash => !this.seen.has(hash))
+    for (const subscription of subscriptions) {
+      const { id, kind, notify, socket } = subscription
+      try {
+        switch (kind) {
+          case 'newHeads':
+            blocks.forEach(block => {
+              const { transactions, ...header } = block
+              notify(header)
+            })
+            break
+
+          case 'logs':
+            if (blocks.length > 0) {
+              const logs = await provider.send('eth_getLogs', [
+                {
+                  address: subscription.criteria?.address,
+                  topics: subscription.criteria?.topics,
+                  fromBlock: ethers.utils.hexValue(
+                    Math.max(fromBlock, parseInt(blocks[0].number))
+                  ),
+                  toBlock: ethers.utils.hexValue(this.cursor)
+                }
+              ])
+              logs.forEach((log: any) => notify(log))
+            }
+            break
+
+          case 'newPendingTransactions':
+            fresh.forEach(hash => notify(hash))
+            break
+        }
+      } catch (ex) {
+        logger.warn({ socket, message: `Subscription ${id} failed: ${ex}` })
+      }
+    }
+    if (watchingPending) {
+      this.seen = new Set<string>(hashes)
+    }
+  }
+
+  /**
+   * Creates new subscription.
+   * @param socket Socket params of the subscribing client.
+   * @param kind Kind of subscription.
+   * @param criteria Log filter criteria, if subscribing to logs.
+   * @param notify Callback to be called on every new result.
+   * @returns Subscription id.
+   */
+  async subscribe (
+    socket: SocketParams,
+    kind: SubscriptionKind,
+    criteria: any,
+    notify: (result: any) => void
+  ): Promise<string> {
+    if (!['logs', 'newHeads', 'newPendingTransactions'].includes(kind)) {
+      const reason = `Unsupported subscription: ${kind}`
+      throw {
+        reason,
+        body: {
+          error: {
+            code: -32602,
+            message: reason
+          }
+        }
+      }
+    }
+    if (!this.timer) {
+      this.cursor = await this.wrapper.provider.getBlockNumber()
+      this.timer = setInterval(async () => {
+        if (!this.polling) {
+          this.polling = true
+          await this.poll().catch(ex =>
+            logger.warn({ socket, message: `Cannot poll subscriptions: ${ex}` })
+          )
+          this.polling = false
+        }
+      }, this.wrapper.provider.pollingInterval)
+    }
+    const id = ethers.utils.hexValue(ethers.utils.randomBytes(16))
+    this.subscriptions[id] = { criteria, kind, notify, socket }
+    return id
+  }
+
+  /**
+   * Cancels given subscription.
+   * @returns `true` if the subscription actually existed.
+   */
+  unsubscribe (id: string): boolean {
+    if (!id || !this.subscriptions[id.toLowerCase()]) {
+      return false
+    }
+    delete this.subscriptions[id.toLowerCase()]
+    if (Object.keys(this.subscriptions).length === 0 && this.timer) {
+      clearInterval(this.timer)
+      this.timer = undefined
+    }
+    return true
+  }
+}
+
+export { SubscriptionManager }
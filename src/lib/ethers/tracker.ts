@@ -0,0 +1,186 @@
+import { ethers, BigNumber } from 'ethers'
+import { logger, SocketParams } from '../Logger'
+import { ManagedSigner } from './signers'
+import { WalletWrapper } from './wrapper'
+
+// Min percentage by which nodes require replacement transactions to raise fees
+const MIN_BUMP_PERCENTAGE = 10
+
+interface TrackedTransaction {
+  hashes: string[]
+  sentBlock?: number
+  socket: SocketParams
+  tx: ethers.providers.TransactionRequest
+  wallet: ManagedSigner
+}
+
+/**
+ * Keeps track of transactions broadcast by the gateway, and replaces the ones not getting mined
+ * within a given number of blocks with a copy paying a higher fee.
+ */
+class TransactionTracker {
+  bumpBlocks: number
+  bumpPercentage: number
+  pending: TrackedTransaction[]
+  timer?: NodeJS.Timeout
+  wrapper: WalletWrapper
+
+  constructor (
+    wrapper: WalletWrapper,
+    bump_blocks: number,
+    bump_percentage: number
+  ) {
+    this.bumpBlocks = bump_blocks
+    this.bumpPercentage = bump_percentage
+    this.pending = []
+    this.wrapper = wrapper
+  }
+
+  /**
+   * Replaces given transaction with a copy paying a higher fee, if still possible within gas price threshold.
+   * @param entry Tracked transaction.
+   * @param block Current block number.
+   */
+  async bump (entry: TrackedTransaction, block: number) {
+    const { socket } = entry
+    const threshold = BigNumber.from(this.wrapper.defaultGasPrice)
+    const raise = (value: ethers.BigNumberish): BigNumber => {
+      const raised = BigNumber.from(value)
+        .mul(100 + this.bumpPercentage)
+        .div(100)
+      return raised.gt(threshold) ? threshold : raised
+    }
+    const tx: ethers.providers.TransactionRequest = { ...entry.tx }
+    let before: BigNumber
+    let after: BigNumber
+    let priorityBefore: BigNumber | undefined
+    let priorityAfter: BigNumber | undefined
+    if (tx.type === 2) {
+      before = BigNumber.from(tx.maxFeePerGas)
+      after = raise(before)
+      tx.maxFeePerGas = after.toHexString()
+      priorityBefore = BigNumber.from(tx.maxPriorityFeePerGas || 0)
+      priorityAfter = raise(priorityBefore)
+      if (priorityAfter.gt(after)) priorityAfter = after
+      tx.maxPriorityFeePerGas = priorityAfter.toHexString()
+    } else {
+      before = BigNumber.from(tx.gasPrice)
+      after = raise(before)
+      tx.gasPrice = after.toHexString()
+    }
+    entry.sentBlock = block
+    if (after.lte(before)) {
+      logger.warn({
+        socket,
+        message: `Cannot bump tx ${entry.hashes[0]} any further: gas price threshold reached (${this.wrapper.defaultGasPrice})`
+      })
+      return
+    }
+    // Nodes refuse replacements not raising fees by at least 10%, as would be the case if clamped to the threshold:
+    const minimum = (value: BigNumber): BigNumber =>
+      value.mul(100 + MIN_BUMP_PERCENTAGE).div(100)
+    if (
+      after.lt(minimum(before)) ||
+      (priorityBefore && priorityAfter?.lt(minimum(priorityBefore)))
+    ) {
+      logger.warn({
+        socket,
+        message: `Cannot bump tx ${entry.hashes[0]}: raise below the 10% replacement minimum (gas price: ${before} => ${after}, threshold: ${this.wrapper.defaultGasPrice})`
+      })
+      return
+    }
+
+    // Only the extra fees are charged to spending budgets, as value and former fees were charged already:
+    const { budgets } = this.wrapper
+    const extraFees = budgets
+      ? budgets.cost(tx).fees.sub(budgets.cost(entry.tx).fees)
+      : BigNumber.from(0)
+
+    // Re-sign with same nonce, making sure no other tx is being signed by the same wallet meanwhile:
+    const res = await this.wrapper
+      .getNonceManager(entry.wallet)
+      .serialize(async () => {
+        const violation = budgets?.check(
+          entry.wallet.address,
+          BigNumber.from(0),
+          extraFees
+        )
+        if (violation) {
+          logger.warn({
+            socket,
+            message: `Cannot bump tx ${entry.hashes[0]}: refused by spending budget: ${violation}`
+          })
+          return undefined
+        }
+        const signedTx = await entry.wallet.signTransaction(tx)
+        const response = await this.wrapper.provider.sendTransaction(signedTx)
+        budgets?.record(entry.wallet.address, BigNumber.from(0), extraFees)
+        return response
+      })
+    if (!res) return
+    logger.info({
+      socket,
+      message: `Replaced tx ${entry.hashes[0]} with ${res.hash} (nonce: ${tx.nonce}, gas price: ${before} => ${after})`
+    })
+    entry.hashes.push(res.hash)
+    entry.tx = tx
+  }
+
+  /**
+   * Checks every tracked transaction, forgetting the ones already mined and bumping the ones getting stuck.
+   */
+  async check () {
+    const block = await this.wrapper.provider.getBlockNumber()
+    for (const entry of [...this.pending]) {
+      try {
+        const nonce = BigNumber.from(entry.tx.nonce).toNumber()
+        if ((await entry.wallet.getTransactionCount('latest')) > nonce) {
+          logger.verbose({
+            socket: entry.socket,
+            message: `Tx ${entry.hashes[entry.hashes.length - 1]} got mined (nonce: ${nonce})`
+          })
+          this.pending.splice(this.pending.indexOf(entry), 1)
+        } else if (entry.sentBlock === undefined) {
+          entry.sentBlock = block
+        } else if (block - entry.sentBlock >= this.bumpBlocks) {
+          await this.bump(entry, block)
+        }
+      } catch (ex) {
+        logger.warn({
+          socket: entry.socket,
+          message: `Cannot bump tx ${entry.hashes[0]}: ${ex}`
+        })
+      }
+    }
+    if (this.pending.length === 0 && this.timer) {
+      clearInterval(this.timer)
+      this.timer = undefined
+    }
+  }
+
+  /**
+   * Starts tracking a transaction that was just signed and broadcast.
+   */
+  track (
+    socket: SocketParams,
+    wallet: ManagedSigner,
+    tx: ethers.providers.TransactionRequest,
+    hash: string
+  ) {
+    this.pending.push({ hashes: [hash], socket, tx: { ...tx }, wallet })
+    if (!this.timer) {
+      let checking = false
+      this.timer = setInterval(async () => {
+        if (!checking) {
+          checking = true
+          await this.check().catch(ex =>
+            logger.warn({ socket, message: `Cannot check pending txs: ${ex}` })
+          )
+          checking = false
+        }
+      }, this.wrapper.provider.pollingInterval)
+    }
+  }
+}
+
+export { MIN_BUMP_PERCENTAGE, TransactionTracker }
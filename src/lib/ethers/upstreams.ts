@@ -0,0 +1,171 @@
+import { ethers } from 'ethers'
+import { logger } from '../Logger'
+
+// Weight of every new sample on the moving averages of latency and error rate
+const EWMA_WEIGHT = 0.2
+
+// Score penalty equivalences, in milliseconds of latency
+const ERROR_RATE_PENALTY = 10000
+const HEAD_LAG_PENALTY = 1000
+
+// Upstreams whose error rate is above this are not considered healthy
+const MAX_HEALTHY_ERROR_RATE = 0.5
+
+interface Upstream {
+  errorRate: number
+  head: number
+  latency: number
+  provider: ethers.providers.StaticJsonRpcProvider
+  url: string
+}
+
+/**
+ * Tells whether given exception was raised before getting a JSON-RPC response from the upstream provider
+ * (i.e. connection errors, timeouts, unexpected HTTP status codes), as opposed to JSON-RPC errors,
+ * which `ethers` wraps along with the actual error code.
+ */
+function isTransportError (ex: any): boolean {
+  return typeof ex?.code === 'string' && typeof ex?.error?.code !== 'number'
+}
+
+/**
+ * JSON-RPC provider that routes every request to the healthiest of several upstream providers,
+ * scored on latency, error rate and head-block lag, and fails over to the next one on transport errors.
+ * Signed raw transactions are broadcast to all healthy upstreams at once.
+ */
+class FailoverJsonRpcProvider extends ethers.providers.StaticJsonRpcProvider {
+  timer?: NodeJS.Timeout
+  upstreams: Upstream[]
+
+  constructor (urls: string[], network?: ethers.providers.Networkish) {
+    super(urls[0], network)
+    this.upstreams = urls.map(url => ({
+      errorRate: 0,
+      head: 0,
+      latency: 0,
+      provider: new ethers.providers.StaticJsonRpcProvider(url, network),
+      url
+    }))
+    if (this.upstreams.length > 1) {
+      // Keep head block of every upstream up to date:
+      this.timer = setInterval(() => this.probe(), this.pollingInterval)
+      this.timer.unref()
+    }
+  }
+
+  /**
+   * Sends signed raw transaction to all healthy upstreams at once.
+   * @returns Transaction hash, as soon as accepted by at least one upstream.
+   */
+  async broadcast (params: any[]): Promise<any> {
+    const results = await Promise.allSettled(
+      this.healthy().map(upstream =>
+        this.sendTo(upstream, 'eth_sendRawTransaction', params)
+      )
+    )
+    const accepted = results.find(result => result.status === 'fulfilled')
+    if (accepted) {
+      return (accepted as PromiseFulfilledResult<any>).value
+    }
+    // Rather report a JSON-RPC error, if any, than a transport error:
+    const reasons = results.map(result => (result as PromiseRejectedResult).reason)
+    throw reasons.find(reason => !isTransportError(reason)) || reasons[0]
+  }
+
+  /**
+   * Gets upstreams whose error rate is acceptable, sorted by score. If none, all upstreams are returned.
+   */
+  healthy (): Upstream[] {
+    const ranked = this.ranked()
+    const healthy = ranked.filter(
+      upstream => upstream.errorRate <= MAX_HEALTHY_ERROR_RATE
+    )
+    return healthy.length > 0 ? healthy : ranked
+  }
+
+  /**
+   * Refreshes head block of every upstream.
+   */
+  async probe () {
+    await Promise.all(
+      this.upstreams.map(upstream =>
+        this.sendTo(upstream, 'eth_blockNumber', []).catch(() => undefined)
+      )
+    )
+  }
+
+  /**
+   * Gets all upstreams, sorted from healthiest to least healthy.
+   */
+  ranked (): Upstream[] {
+    const scores = this.scores()
+    return this.upstreams
+      .map((upstream, index) => ({ upstream, score: scores[index] }))
+      .sort((a, b) => a.score - b.score)
+      .map(({ upstream }) => upstream)
+  }
+
+  /**
+   * Calculates health score of every upstream. The lower, the healthier.
+   */
+  scores (): number[] {
+    const head = Math.max(...this.upstreams.map(upstream => upstream.head))
+    return this.upstreams.map(
+      upstream =>
+        upstream.latency +
+        upstream.errorRate * ERROR_RATE_PENALTY +
+        (head - upstream.head) * HEAD_LAG_PENALTY
+    )
+  }
+
+  async send (method: string, params: Array<any>): Promise<any> {
+    if (method === 'eth_sendRawTransaction' && this.upstreams.length > 1) {
+      return this.broadcast(params)
+    }
+    let error: any
+    for (const upstream of this.ranked()) {
+      try {
+        return await this.sendTo(upstream, method, params)
+      } catch (ex) {
+        if (!isTransportError(ex)) {
+          throw ex
+        }
+        if (this.upstreams.length > 1) {
+          logger.warn({
+            message: `Upstream ${upstream.url} failed on ${method}: ${(ex as any).reason || ex}`
+          })
+        }
+        error = ex
+      }
+    }
+    throw error
+  }
+
+  /**
+   * Sends request to the given upstream, and updates its health stats.
+   */
+  async sendTo (
+    upstream: Upstream,
+    method: string,
+    params: Array<any>
+  ): Promise<any> {
+    const start = Date.now()
+    let failed = false
+    try {
+      const result = await upstream.provider.send(method, params)
+      if (method === 'eth_blockNumber') {
+        upstream.head = ethers.BigNumber.from(result).toNumber()
+      }
+      return result
+    } catch (ex) {
+      failed = isTransportError(ex)
+      throw ex
+    } finally {
+      upstream.latency +=
+        EWMA_WEIGHT * (Date.now() - start - upstream.latency)
+      upstream.errorRate += EWMA_WEIGHT * ((failed ? 1 : 0) - upstream.errorRate)
+    }
+  }
+}
+
+export { FailoverJsonRpcProvider }
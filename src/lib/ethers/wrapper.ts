@@ -1,5 +1,16 @@
-import { ethers, BigNumber, Wallet } from 'ethers'
+import { ethers, BigNumber, TypedDataDomain, TypedDataField } from 'ethers'
 import { logger, SocketParams } from '../Logger'
+import { methodLabel, rollbacksTotal, upstreamLatency } from '../Metrics'
+import { BudgetRule, SpendingBudgets } from './budgets'
+import { ResponseCache } from './cache'
+import { FilterRegistry } from './filters'
+import { NonceManager } from './nonces'
+import { TransactionPolicy } from './policy'
+import { ManagedSigner } from './signers'
+import { TransactionTracker } from './tracker'
+import { FailoverJsonRpcProvider } from './upstreams'
+
+const packageData = require('../../../package.json')
 
 interface TransactionParams {
   from?: string
@@ -14,25 +25,49 @@ interface TransactionParams {
   maxPriorityFeePerGas?: string
 }
 
+interface TypedDataDomainRule {
+  chainId?: number
+  name?: string
+  verifyingContract?: string
+}
+
+/**
+ * Hides credentials and API keys that may be part of an upstream provider's URL, e.g. Infura project ids.
+ */
+function redactUrl (url: string): string {
+  return url
+    .replace(/\/\/[^/@]+@/, '//***@')
+    .replace(/\/[0-9a-zA-Z_-]{20,}(?=\/?$|\?)/, '/***')
+    .replace(/([?&][^=&]*key[^=&]*=)[^&]*/gi, '$1***')
+}
+
 /**
  * Wraps the `ether` wallet / signer abstraction so it's compatible with the wallet middleware of
  * `eth-json-rpc-middleware`.
  */
 class WalletWrapper {
+  budgets?: SpendingBudgets
+  cache?: ResponseCache
   chainId: number
   defaultGasPrice!: number
   defaultGasLimit!: number
+  eip712Domains: TypedDataDomainRule[]
   estimateGasLimit: boolean
   estimateGasPrice: boolean
   ethGasPriceFactor: boolean
+  filters: FilterRegistry
   forceEIP155: boolean
   forceType2Txs: boolean
   gasPriceFactor!: number
   gasLimitFactor!: number
   interleaveBlocks: number
+  labels: { [name: string]: string }
   lastKnownBlock: number
+  nonceManagers: { [address: string]: NonceManager }
+  policy?: TransactionPolicy
   provider: ethers.providers.JsonRpcProvider
-  wallets: Wallet[]
+  tracker?: TransactionTracker
+  wallets: ManagedSigner[]
 
   constructor (
     interleave_blocks: number,
@@ -44,19 +79,45 @@ class WalletWrapper {
     gas_limit_factor: number,
     force_eip_155: boolean,
     force_eip_1559: boolean,
-    eth_gas_price_factor: boolean
+    eth_gas_price_factor: boolean,
+    bump_blocks: number,
+    bump_percentage: number,
+    filter_timeout: number,
+    cache_size: number,
+    cache_ttl: number,
+    cache_depth: number,
+    eip712_domains: TypedDataDomainRule[],
+    policy_file: string,
+    budgets: BudgetRule[],
+    budgets_file: string
   ) {
+    if (budgets.length > 0) {
+      this.budgets = new SpendingBudgets(budgets, budgets_file)
+    }
+    if (cache_size > 0) {
+      this.cache = new ResponseCache(cache_size, cache_ttl, cache_depth)
+    }
     this.defaultGasPrice = gas_price
     this.defaultGasLimit = gas_limit
+    this.eip712Domains = eip712_domains
     this.estimateGasLimit = estimate_gas_limit
     this.estimateGasPrice = estimate_gas_price
     this.ethGasPriceFactor = eth_gas_price_factor
+    this.filters = new FilterRegistry(this, filter_timeout)
     this.forceEIP155 = force_eip_155
     this.forceType2Txs = force_eip_1559
     this.gasPriceFactor = gas_price_factor
     this.gasLimitFactor = gas_limit_factor
     this.interleaveBlocks = interleave_blocks
+    this.labels = {}
     this.lastKnownBlock = 0
+    this.nonceManagers = {}
+    if (policy_file) {
+      this.policy = new TransactionPolicy(policy_file)
+    }
+    if (bump_blocks > 0) {
+      this.tracker = new TransactionTracker(this, bump_blocks, bump_percentage)
+    }
     this.wallets = []
   }
 
@@ -187,6 +248,36 @@ class WalletWrapper {
     return tx
   }
 
+  /**
+   * Checks worst-case cost of given transaction against the signing wallet's remaining spending budgets.
+   * @returns Value and worst-case fees of the transaction.
+   */
+  checkBudget (
+    socket: SocketParams,
+    wallet: ManagedSigner,
+    tx: ethers.providers.TransactionRequest
+  ): { fees: BigNumber; value: BigNumber } | undefined {
+    if (!this.budgets) {
+      return undefined
+    }
+    const { fees, value } = this.budgets.cost(tx)
+    const violation = this.budgets.check(wallet.address, value, fees)
+    if (violation) {
+      const reason = `Transaction refused by spending budget: ${violation}`
+      logger.warn({ socket, message: `> ${reason}` })
+      throw {
+        reason,
+        body: {
+          error: {
+            code: -32099,
+            message: reason
+          }
+        }
+      }
+    }
+    return { fees, value }
+  }
+
   /**
    * Check for possible rollbacks on the EVM side.
    * @param socket Socket parms where the RPC call is coming from
@@ -194,8 +285,22 @@ class WalletWrapper {
    */
   async checkRollbacks (socket: SocketParams): Promise<number> {
     const block = await this.provider.getBlockNumber()
+    this.updateLastKnownBlock(socket, block)
+    return block
+  }
+
+  /**
+   * Updates last known block number, tracing a warning message if a rollback is detected.
+   * Cached results referring to blocks that are no longer settled get invalidated on rollbacks.
+   */
+  updateLastKnownBlock (socket: SocketParams, block: number) {
     if (block < this.lastKnownBlock) {
-      if (block <= this.lastKnownBlock - this.interleaveBlocks) {
+      const severity =
+        block <= this.lastKnownBlock - this.interleaveBlocks
+          ? 'threatening'
+          : 'harmless'
+      rollbacksTotal.inc({ ...this.labels, severity })
+      if (severity === 'threatening') {
         logger.warn({
           socket,
           message: `Threatening rollback: from epoch ${this.lastKnownBlock} down to ${block}`
@@ -206,9 +311,9 @@ class WalletWrapper {
           message: `Harmelss rollback: from epoch ${this.lastKnownBlock} down to ${block}`
         })
       }
+      this.cache?.invalidate(block - this.cache.depth + 1)
     }
     this.lastKnownBlock = block
-    return block
   }
 
   /**
@@ -346,10 +451,21 @@ class WalletWrapper {
     return `0x${this.provider.network.chainId.toString(16)}`
   }
 
+  /**
+   * Get nonce manager of the given wallet, creating it if not yet existing.
+   */
+  getNonceManager (wallet: ManagedSigner): NonceManager {
+    const address = wallet.address.toLowerCase()
+    if (!this.nonceManagers[address]) {
+      this.nonceManagers[address] = new NonceManager(wallet)
+    }
+    return this.nonceManagers[address]
+  }
+
   /**
    * Get wallet of the given's address, if managed
    */
-  async getWalletByAddress (address: string): Promise<Wallet | undefined> {
+  async getWalletByAddress (address: string): Promise<ManagedSigner | undefined> {
     let accounts = await this.getAccounts()
     for (let ix = 0; ix < accounts.length; ix++) {
       if (accounts[ix].toLocaleLowerCase() === address.toLowerCase()) {
@@ -360,11 +476,126 @@ class WalletWrapper {
   }
 
   /**
-   * Gets eth filter changes. Only EthBlockFilters are currently supported.
+   * Tells whether given EIP-712 domain matches all fields specified in the given allowlist rule.
    */
-  async mockEthFilterChanges (socket: SocketParams, id: string): Promise<any> {
+  matchesDomainRule (
+    domain: TypedDataDomain,
+    rule: TypedDataDomainRule
+  ): boolean {
+    return (
+      (rule.name === undefined || rule.name === domain.name) &&
+      (rule.chainId === undefined ||
+        (domain.chainId !== undefined &&
+          BigNumber.from(domain.chainId).eq(rule.chainId))) &&
+      (rule.verifyingContract === undefined ||
+        rule.verifyingContract.toLowerCase() ===
+          domain.verifyingContract?.toLowerCase())
+    )
+  }
+
+  /**
+   * Composes transaction out of given params, and fetches the managed wallet that is to sign it.
+   */
+  async prepareTransaction (
+    socket: SocketParams,
+    params: TransactionParams
+  ): Promise<{ tx: ethers.providers.TransactionRequest; wallet: ManagedSigner }> {
+    // Check for rollbacks (and just trace a warning message if detected):
+    this.checkRollbacks(socket)
+
+    // Compose transaction:
+    let tx: ethers.providers.TransactionRequest = await this.composeTransaction(
+      socket,
+      params
+    )
+
+    // Fetch Wallet interaction object:
+    let wallet: ManagedSigner | undefined = await this.getWalletByAddress(
+      tx.from || (await this.getAccounts())[0]
+    )
+    if (!wallet) {
+      let reason = `No private key available as to sign messages from '${params.from}'`
+      throw {
+        reason,
+        body: {
+          error: {
+            code: -32000,
+            message: reason
+          }
+        }
+      }
+    }
+
+    // Check transaction is allowed to the signing wallet:
+    const violation = this.policy?.check(wallet.address, tx)
+    if (violation) {
+      const reason = `Transaction refused by policy: ${violation}`
+      logger.warn({ socket, message: `> ${reason}` })
+      throw {
+        reason,
+        body: {
+          error: {
+            code: -32099,
+            message: reason
+          }
+        }
+      }
+    }
+    return { tx, wallet }
+  }
+
+  /**
+   * Gets changes of an emulated filter since last poll.
+   */
+  async processEthGetFilterChanges (
+    socket: SocketParams,
+    id: string
+  ): Promise<any> {
     logger.verbose({ socket, message: `> Filter id: ${id}` })
-    return [await this.provider.getBlock('latest')]
+    return this.filters.changes(id)
+  }
+
+  /**
+   * Gets all logs matching the criteria of an emulated log filter.
+   */
+  async processEthGetFilterLogs (socket: SocketParams, id: string): Promise<any> {
+    logger.verbose({ socket, message: `> Filter id: ${id}` })
+    return this.filters.logs(id)
+  }
+
+  /**
+   * Creates emulated block filter.
+   */
+  async processEthNewBlockFilter (_socket: SocketParams): Promise<any> {
+    return this.filters.create('block')
+  }
+
+  /**
+   * Creates emulated log filter.
+   */
+  async processEthNewFilter (socket: SocketParams, criteria: any): Promise<any> {
+    logger.verbose({ socket, message: `> Criteria: ${JSON.stringify(criteria)}` })
+    return this.filters.create('logs', criteria)
+  }
+
+  /**
+   * Creates emulated pending transactions filter.
+   */
+  async processEthNewPendingTransactionFilter (
+    _socket: SocketParams
+  ): Promise<any> {
+    return this.filters.create('pending')
+  }
+
+  /**
+   * Uninstalls emulated filter.
+   */
+  async processEthUninstallFilter (
+    socket: SocketParams,
+    id: string
+  ): Promise<any> {
+    logger.verbose({ socket, message: `> Filter id: ${id}` })
+    return this.filters.uninstall(id)
   }
 
   async processEthEstimateGas (
@@ -420,20 +651,86 @@ class WalletWrapper {
   }
 
   /**
-   * Signs a message using the wallet's private key.
+   * Decodes signed raw transaction, and forwards it to the provider only if it complies with the gateway's
+   * chain id, and gas price and gas limit thresholds.
+   */
+  async processEthSendRawTransaction (
+    socket: SocketParams,
+    signedTx: string
+  ): Promise<any> {
+    let tx: ethers.Transaction
+    try {
+      tx = ethers.utils.parseTransaction(signedTx)
+    } catch (_ex) {
+      tx = {} as ethers.Transaction
+    }
+    const reject = (code: number, reason: string): never => {
+      throw {
+        reason,
+        body: {
+          error: {
+            code,
+            message: reason
+          }
+        }
+      }
+    }
+    if (!tx.from) {
+      reject(-32602, 'Invalid raw transaction: cannot recover sender')
+    }
+    logger.verbose({ socket, message: `> From:      ${tx.from}` })
+    logger.verbose({ socket, message: `> To:        ${tx.to || '(deploy)'}` })
+    logger.verbose({ socket, message: `> Nonce:     ${tx.nonce}` })
+    logger.verbose({ socket, message: `> Type:      ${tx.type || 0}` })
+    logger.verbose({ socket, message: `> ChainId:   ${tx.chainId}` })
+
+    // Check chain id, if replay-protected:
+    const chainId = this.provider.network.chainId
+    if (tx.chainId === 0 && this.forceEIP155) {
+      reject(-32602, 'Invalid raw transaction: no chain id (EIP-155 required)')
+    } else if (tx.chainId !== 0 && tx.chainId !== chainId) {
+      reject(
+        -32602,
+        `Invalid raw transaction: chain id mismatch (${tx.chainId} != ${chainId})`
+      )
+    }
+
+    // Check gas price, or max fee per gas:
+    const gasPrice = tx.type === 2 ? tx.maxFeePerGas : tx.gasPrice
+    if (gasPrice && gasPrice.gt(BigNumber.from(this.defaultGasPrice))) {
+      reject(
+        -32099,
+        `Provided gas price exceeds threshold (${gasPrice} > ${this.defaultGasPrice})`
+      )
+    }
+
+    // Check gas limit:
+    if (tx.gasLimit.gt(BigNumber.from(this.defaultGasLimit))) {
+      reject(
+        -32099,
+        `Provided gas limit exceeds threshold (${tx.gasLimit} > ${this.defaultGasLimit})`
+      )
+    }
+
+    return this.provider.send('eth_sendRawTransaction', [signedTx])
+  }
+
+  /**
+   * Signs a message using the wallet's private key, as per EIP-191. Hex-encoded messages get signed as bytes,
+   * and any other message as an UTF-8 string, same as MetaMask does.
    *
    * @remark Return type is made `any` here because the result needs to be a String, not a `Record`.
    */
   async processEthSignMessage (
+    socket: SocketParams,
     address: string,
-    message: string,
-    socket: SocketParams
+    message: string
   ): Promise<any> {
     logger.verbose({
       socket,
       message: `=> Signing message: ${address} ${message}`
     })
-    let wallet: Wallet | undefined = await this.getWalletByAddress(address)
+    let wallet: ManagedSigner | undefined = await this.getWalletByAddress(address)
     if (!wallet) {
       let reason = `No private key available as to sign messages from '${address}'`
       throw {
@@ -446,34 +743,92 @@ class WalletWrapper {
         }
       }
     }
-    logger.verbose({ socket, message: `> Signing message "${message}"` })
-    return wallet?.signMessage(message)
+    if (ethers.utils.isHexString(message) && message.length % 2 === 0) {
+      logger.verbose({ socket, message: `> Signing bytes ${message}` })
+      return wallet.signMessage(ethers.utils.arrayify(message))
+    } else {
+      logger.verbose({ socket, message: `> Signing message "${message}"` })
+      return wallet.signMessage(message)
+    }
   }
 
   /**
-   * Signs transaction using wallet's private key, before forwarding to provider.
+   * Signs transaction using wallet's private key, and returns it without forwarding to provider.
    *
    * @remark Return type is made `any` here because the result needs to be a String, not a `Record`.
    */
-  async processTransaction (
+  async processEthSignTransaction (
     socket: SocketParams,
     params: TransactionParams
   ): Promise<any> {
-    // Check for rollbacks (and just trace a warning message if detected):
-    this.checkRollbacks(socket)
+    const { tx, wallet } = await this.prepareTransaction(socket, params)
+    const nonceManager = this.getNonceManager(wallet)
+    return nonceManager.serialize(async () => {
+      const cost = this.checkBudget(socket, wallet, tx)
+      const signedTx = await this.signTransaction(socket, wallet, tx)
+      // Assume the caller will eventually broadcast the transaction:
+      nonceManager.commit(BigNumber.from(tx.nonce).toNumber())
+      if (cost) this.budgets?.record(wallet.address, cost.value, cost.fees)
+      return signedTx
+    })
+  }
 
-    // Compose transaction:
-    let tx: ethers.providers.TransactionRequest = await this.composeTransaction(
+  /**
+   * Signs EIP-712 typed data using the wallet's private key, as long as the data's domain is allowed.
+   *
+   * @remark Return type is made `any` here because the result needs to be a String, not a `Record`.
+   */
+  async processEthSignTypedData (
+    socket: SocketParams,
+    address: string,
+    typedData: any
+  ): Promise<any> {
+    if (!ethers.utils.isAddress(address) && ethers.utils.isAddress(typedData)) {
+      // some clients send params in reverse order:
+      [address, typedData] = [typedData, address]
+    }
+    let data: any
+    try {
+      data = typeof typedData === 'string' ? JSON.parse(typedData) : typedData
+    } catch (_ex) {
+      data = undefined
+    }
+    if (!data || Array.isArray(data) || !data.types || !data.message) {
+      const reason = 'Unsupported typed data format (EIP-712 expected)'
+      throw {
+        reason,
+        body: {
+          error: {
+            code: -32602,
+            message: reason
+          }
+        }
+      }
+    }
+    const domain: TypedDataDomain = data.domain || {}
+    logger.verbose({
       socket,
-      params
-    )
-
-    // Fetch Wallet interaction object:
-    let wallet: Wallet | undefined = await this.getWalletByAddress(
-      tx.from || (await this.getAccounts())[0]
-    )
+      message: `=> Signing typed data: ${address} ${data.primaryType || ''}`
+    })
+    logger.verbose({ socket, message: `> Domain:    ${JSON.stringify(domain)}` })
+    if (
+      this.eip712Domains.length > 0 &&
+      !this.eip712Domains.find(rule => this.matchesDomainRule(domain, rule))
+    ) {
+      const reason = `EIP-712 domain not allowed: ${JSON.stringify(domain)}`
+      throw {
+        reason,
+        body: {
+          error: {
+            code: -32099,
+            message: reason
+          }
+        }
+      }
+    }
+    let wallet: ManagedSigner | undefined = await this.getWalletByAddress(address)
     if (!wallet) {
-      let reason = `No private key available as to sign messages from '${params.from}'`
+      let reason = `No private key available as to sign messages from '${address}'`
       throw {
         reason,
         body: {
@@ -484,22 +839,250 @@ class WalletWrapper {
         }
       }
     }
+    // The domain type is implied by ethers, and extra types unreachable from the primary type must go:
+    const types: Record<string, TypedDataField[]> = {}
+    const pending: string[] = data.primaryType
+      ? [data.primaryType]
+      : Object.keys(data.types).filter(name => name !== 'EIP712Domain')
+    while (pending.length > 0) {
+      const name = pending.pop()!
+      if (name in types || name === 'EIP712Domain' || !data.types[name]) {
+        continue
+      }
+      types[name] = data.types[name]
+      types[name].forEach(field =>
+        pending.push(field.type.replace(/(\[\d*\])+$/, ''))
+      )
+    }
+    return wallet._signTypedData(domain, types, data.message)
+  }
 
-    // Add current nonce:
-    if (!tx.nonce) {
-      tx.nonce = await wallet?.getTransactionCount()
+  /**
+   * Gets effective gas settings and features enabled on the gateway.
+   */
+  async processGatewayConfig (_socket: SocketParams): Promise<any> {
+    return {
+      budgets: this.budgets?.rules || [],
+      bumps: this.tracker
+        ? {
+            blocks: this.tracker.bumpBlocks,
+            percentage: this.tracker.bumpPercentage
+          }
+        : null,
+      cache: this.cache
+        ? {
+            depth: this.cache.depth,
+            maxAge: this.cache.maxAge,
+            maxEntries: this.cache.maxEntries
+          }
+        : null,
+      eip712Domains: this.eip712Domains,
+      gas: {
+        defaultGasLimit: this.defaultGasLimit,
+        defaultGasPrice: this.defaultGasPrice,
+        estimateGasLimit: this.estimateGasLimit,
+        estimateGasPrice: this.estimateGasPrice,
+        ethGasPriceFactor: this.ethGasPriceFactor,
+        forceEIP155: this.forceEIP155,
+        forceEIP1559: this.forceType2Txs,
+        gasLimitFactor: this.gasLimitFactor,
+        gasPriceFactor: this.gasPriceFactor
+      },
+      interleaveBlocks: this.interleaveBlocks,
+      policy: this.policy !== undefined
+    }
+  }
+
+  /**
+   * Changes the log level at runtime.
+   * @returns Previous log level.
+   */
+  async processGatewaySetLogLevel (
+    socket: SocketParams,
+    level: string
+  ): Promise<any> {
+    const levels = Object.keys(logger.levels)
+    if (!levels.includes(level)) {
+      const reason = `Invalid log level: ${level} (expected one of ${levels.join(', ')})`
+      throw {
+        reason,
+        body: {
+          error: {
+            code: -32602,
+            message: reason
+          }
+        }
+      }
+    }
+    const previous = logger.level
+    logger.level = level
+    logger.warn({
+      socket,
+      message: `> Log level changed: ${previous} => ${level}`
+    })
+    return previous
+  }
+
+  /**
+   * Gets URLs of the upstream providers, the detected network, the current head and the last block checked for rollbacks.
+   */
+  async processGatewayUpstream (_socket: SocketParams): Promise<any> {
+    const network = await this.provider.getNetwork()
+    return {
+      head: await this.provider.getBlockNumber(),
+      lastKnownBlock: this.lastKnownBlock,
+      network: {
+        chainId: network.chainId,
+        ensAddress: network.ensAddress,
+        name: network.name
+      },
+      upstreams:
+        this.provider instanceof FailoverJsonRpcProvider
+          ? this.provider.ranked().map(upstream => ({
+              errorRate: upstream.errorRate,
+              head: upstream.head,
+              latency: upstream.latency,
+              url: redactUrl(upstream.url)
+            }))
+          : [{ url: redactUrl(this.provider.connection.url) }]
+    }
+  }
+
+  async processGatewayVersion (_socket: SocketParams): Promise<any> {
+    return {
+      ethers: packageData.dependencies.ethers,
+      name: packageData.name,
+      node: process.version,
+      version: packageData.version
+    }
+  }
+
+  /**
+   * Gets address, balance, nonce and number of transactions pending to be mined of every managed wallet.
+   */
+  async processGatewayWallets (_socket: SocketParams): Promise<any> {
+    return Promise.all(
+      this.wallets.map(async wallet => {
+        const [balance, latest, pending] = await Promise.all([
+          wallet.getBalance(),
+          wallet.getTransactionCount('latest'),
+          wallet.getTransactionCount('pending')
+        ])
+        return {
+          address: wallet.address,
+          balance: ethers.utils.formatEther(balance),
+          nonce: latest,
+          pending: pending - latest
+        }
+      })
+    )
+  }
+
+  /**
+   * Signs a message using the wallet's private key, as `personal_sign` expects the message before the address.
+   */
+  async processPersonalSign (
+    socket: SocketParams,
+    message: string,
+    address: string
+  ): Promise<any> {
+    return this.processEthSignMessage(socket, address, message)
+  }
+
+  /**
+   * Signs transaction using wallet's private key, before forwarding to provider.
+   *
+   * @remark Return type is made `any` here because the result needs to be a String, not a `Record`.
+   */
+  async processTransaction (
+    socket: SocketParams,
+    params: TransactionParams
+  ): Promise<any> {
+    const { tx, wallet } = await this.prepareTransaction(socket, params)
+
+    // Sign and broadcast one transaction at a time per wallet:
+    const nonceManager = this.getNonceManager(wallet)
+    return nonceManager.serialize(async () => {
+      // Check and sign, with no other tx of the same wallet being spent meanwhile:
+      const cost = this.checkBudget(socket, wallet, tx)
+      const signedTx = await this.signTransaction(socket, wallet, tx)
+
+      // Broadcast transaction, and resync nonce if rejected:
+      let res: ethers.providers.TransactionResponse
+      try {
+        res = await this.provider.sendTransaction(signedTx)
+      } catch (ex) {
+        const nonce = await nonceManager.resync().catch(() => undefined)
+        logger.warn({
+          socket,
+          message: `> Nonce resync: ${nonce !== undefined ? nonce : '(failed)'}`
+        })
+        throw ex
+      }
+      nonceManager.commit(BigNumber.from(tx.nonce).toNumber())
+      if (cost) this.budgets?.record(wallet.address, cost.value, cost.fees)
+      logger.debug({ socket, message: `<= ${JSON.stringify(res)}` })
+
+      // Keep an eye on the transaction until it gets mined:
+      this.tracker?.track(socket, wallet, tx, res.hash)
+
+      // Return transaction hash:
+      return res.hash
+    })
+  }
+
+  /**
+   * Passes call down to the provider, unless its result can be served from the response cache.
+   */
+  async send (
+    socket: SocketParams,
+    method: string,
+    params?: any[]
+  ): Promise<any> {
+    const cached = this.cache?.get(method, params)
+    if (cached !== undefined) {
+      logger.verbose({
+        socket,
+        message: `<< Cache hit (hits: ${this.cache!.hits}, misses: ${this.cache!.misses})`
+      })
+      return cached
+    }
+    const result = await upstreamLatency.time(
+      { ...this.labels, method: methodLabel(method, false) },
+      this.provider.send(method, params || [])
+    )
+    if (method === 'eth_blockNumber') {
+      this.updateLastKnownBlock(socket, BigNumber.from(result).toNumber())
+    }
+    if (this.cache?.set(method, params, result, this.lastKnownBlock)) {
+      logger.debug({
+        socket,
+        message: `<< Cache miss (hits: ${this.cache.hits}, misses: ${this.cache.misses})`
+      })
+    }
+    return result
+  }
+
+  /**
+   * Signs given transaction, assigning it the wallet's next nonce if not specified.
+   * Must be called from within the wallet's nonce manager serialized tasks.
+   */
+  async signTransaction (
+    socket: SocketParams,
+    wallet: ManagedSigner,
+    tx: ethers.providers.TransactionRequest
+  ): Promise<string> {
+    // Add next nonce, if not specified:
+    if (tx.nonce === undefined || tx.nonce === null) {
+      tx.nonce = await this.getNonceManager(wallet).next()
     }
     logger.verbose({ socket, message: `> Nonce:     ${tx.nonce}` })
 
     // Sign transaction:
-    const signedTx = await wallet?.signTransaction(tx)
+    const signedTx = await wallet.signTransaction(tx)
     logger.debug({ socket, message: `=> Signed tx:  ${signedTx}` })
-
-    // Return transaction hash:
-    const res = await this.provider.sendTransaction(signedTx)
-    logger.debug({ socket, message: `<= ${JSON.stringify(res)}` })
-    return res.hash
+    return signedTx
   }
 }
 
-export { WalletWrapper }
+export { TypedDataDomainRule, WalletWrapper }
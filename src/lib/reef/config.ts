@@ -0,0 +1,31 @@
+import { Schema } from '../Config'
+
+interface ReefConfig {
+  graphUrl: string
+  port: number
+  providerUrl: string
+  seedPhrase: string
+  seedPhraseWallets: number
+}
+
+/**
+ * Settings taken by the Reef gateway, as to be set within a profile, or from the environment:
+ * - `providerUrl`: WebSocket URL of the Reef node.
+ * - `graphUrl`: GraphQL endpoint serving Reef's EVM data.
+ * - `port`: listening port for the server.
+ * - `seedPhrase`: seed phrase to derive `seedPhraseWallets` wallets from, in BIP-39 mnemonics format
+ *   (`m/44'/60'/0'/0/*`).
+ */
+const reefSettings: Schema<ReefConfig> = {
+  graphUrl: { env: 'REEF_GRAPHQL_URL', type: 'string', required: true },
+  port: { env: 'ETHRPC_PORT', type: 'integer', required: true },
+  providerUrl: { env: 'ETHRPC_PROVIDER_URL', type: 'string', required: true },
+  seedPhrase: { env: 'ETHRPC_SEED_PHRASE', type: 'string', required: true },
+  seedPhraseWallets: {
+    env: 'ETHRPC_SEED_PHRASE_WALLETS',
+    type: 'integer',
+    default: 1
+  }
+}
+
+export { ReefConfig, reefSettings }
@@ -2,7 +2,31 @@ import express, { Express } from 'express'
 import cors from 'cors'
 
 import { ethers } from 'ethers'
+import { BalanceWatcher } from '../Alerts'
+import { READ_METHODS, RequestCoalescer } from '../Coalescer'
+import {
+  checkBalances,
+  checkHeadAge,
+  serveHealth,
+  serveReadiness
+} from '../Health'
+import {
+  bodySizeGuard,
+  limitExceeded,
+  limits,
+  RateLimiter
+} from '../Limiter'
 import { logger, SocketParams, traceKeyValue } from '../Logger'
+import {
+  lastKnownBlock,
+  methodLabel,
+  metrics,
+  requestsRouted,
+  requestsTotal,
+  upstreamLatency,
+  walletBalance,
+  walletNonce
+} from '../Metrics'
 import { WalletWrapper } from './wrapper'
 
 /**
@@ -10,9 +34,12 @@ import { WalletWrapper } from './wrapper'
  * provider, e.g. Infura.
  */
 export class WalletMiddlewareServer {
+  coalescer: RequestCoalescer
   expressServer: Express
+  limiter: RateLimiter
   rpcMethodHandlers: { [K: string]: any }
   totalRequests: number
+  watcher: BalanceWatcher
   wrapper: WalletWrapper
 
   constructor (
@@ -21,7 +48,9 @@ export class WalletMiddlewareServer {
     seedPhrase: string,
     numAddresses: number
   ) {
+    this.coalescer = new RequestCoalescer(READ_METHODS)
     this.expressServer = express()
+    this.limiter = new RateLimiter()
     this.totalRequests = 0
     this.wrapper = new WalletWrapper(rpcUrl, graphUrl, seedPhrase, numAddresses)
 
@@ -45,16 +74,68 @@ export class WalletMiddlewareServer {
       web3_clientVersion: this.wrapper.getWeb3Version
     }
 
+    this.watcher = new BalanceWatcher(() => this.getBalances())
+
+    metrics.collect(async () => {
+      lastKnownBlock.set({}, await this.wrapper.provider.getBlockNumber())
+      for (const signer of this.wrapper.signers) {
+        const address = await signer.getAddress()
+        walletBalance.set(
+          { address },
+          parseFloat(ethers.utils.formatEther(await signer.getBalance()))
+        )
+        walletNonce.set({ address }, await signer.getTransactionCount())
+      }
+    })
+
     return this
   }
 
+  /**
+   * Gets balance of every managed signer, in REEF.
+   */
+  async getBalances (): Promise<{ [address: string]: number }> {
+    const balances: { [address: string]: number } = {}
+    for (const signer of this.wrapper.signers) {
+      balances[await signer.getAddress()] = parseFloat(
+        ethers.utils.formatEther(await signer.getBalance())
+      )
+    }
+    return balances
+  }
+
   /**
    * Initializes the Express server, configures CORS, and passes requests back and forth between the Express server and
    * the `JsonRpcEngine`.
    */
   initialize () {
     this.expressServer.use(cors())
-    this.expressServer.use(express.json())
+    this.expressServer.use(express.json({ limit: limits.maxBodySize }))
+
+    this.expressServer.get('/health', serveHealth)
+    this.expressServer.get('/metrics', (req, res) => metrics.serve(req, res))
+    // Reef providers report a fixed chain id, so there's no configured network to check against:
+    this.expressServer.get(
+      '/ready',
+      serveReadiness({
+        upstream: async () => ({
+          ok: true,
+          block: await this.wrapper.provider.getBlockNumber()
+        }),
+        head: async () => {
+          const api = this.wrapper.provider.api
+          const [header, now] = await Promise.all([
+            api.rpc.chain.getHeader(),
+            api.query.timestamp.now()
+          ])
+          return checkHeadAge(
+            header.number.toNumber(),
+            Math.floor(Number(now.toString()) / 1000)
+          )
+        },
+        wallets: async () => checkBalances(await this.getBalances())
+      })
+    )
 
     this.expressServer.post(
       '/{*any}',
@@ -93,11 +174,24 @@ export class WalletMiddlewareServer {
         let result
 
         try {
+          if (!this.limiter.take(socket.clientAddr, request.method)) {
+            throw limitExceeded('Rate limit exceeded')
+          }
           // Intercept method call, if required:
           if (request.method in this.rpcMethodHandlers) {
-            result = await this.rpcMethodHandlers[request.method].bind(
-              this.wrapper
-            )(socket, ...(request.params || []))
+            result = await this.coalescer.run(
+              socket,
+              request.method,
+              request.params,
+              async () =>
+                upstreamLatency.time(
+                  { method: request.method },
+                  this.rpcMethodHandlers[request.method].bind(this.wrapper)(
+                    socket,
+                    ...(request.params || [])
+                  )
+                )
+            )
           } else {
             const reason = `Unsupported ${request.method}`
             throw {
@@ -110,8 +204,8 @@ export class WalletMiddlewareServer {
           }
           response = { ...header, result }
         } catch (exception: any) {
-          if (!exception.code) {
-            // if no error code is specified,
+          if (!exception.code && !exception.body?.error) {
+            // if no error code nor JSON-RPC error body is specified,
             //   assume the Reef provider is actually reporting an execution error:
             exception = {
               reason: exception.toString(),
@@ -153,6 +247,11 @@ export class WalletMiddlewareServer {
             }
           }
         }
+        requestsRouted.inc({ route: 'intercepted' })
+        requestsTotal.inc({
+          method: methodLabel(method, method in this.rpcMethodHandlers),
+          outcome: response.error ? 'error' : 'success'
+        })
         if (response.error) {
           logger.log({
             level: 'warn',
@@ -169,6 +268,7 @@ export class WalletMiddlewareServer {
         res.status(200).json(response)
       }
     )
+    this.expressServer.use(bodySizeGuard)
     return this
   }
 
@@ -196,6 +296,8 @@ export class WalletMiddlewareServer {
       ])
     })
 
+    this.watcher.start(`reef ${network.name} (${network.chainId})`)
+
     console.log(
       `Listening on ${
         hostname || '0.0.0.0'